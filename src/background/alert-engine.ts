@@ -0,0 +1,233 @@
+import type { AlertSettings, PricePoint, Product, ProductStorageManager } from '../lib/storage-manager.js';
+import { VARIANT_SEPARATOR, parseHistoryKey, toVariantProduct } from '../lib/variants.js';
+import { seriesToPriceBasis, toPriceBasis, type PricingOptions } from '../lib/effective-price.js';
+import { getPricingOptions } from '../lib/settings.js';
+
+export interface AlertState {
+  lastPointTimestamp?: number;
+  lastNotifiedPrice?: number;
+  targetTriggered?: boolean;
+}
+
+export type AlertReason = 'backInStock' | 'target' | 'backInStockAtTarget' | 'allTimeLow' | 'change';
+
+export const ALERT_NOTIFICATION_PREFIX = 'price-alert:';
+
+export function getPercentChange(previousPrice: number, newPrice: number): number {
+  if (previousPrice <= 0) return 0;
+  return (newPrice - previousPrice) / previousPrice;
+}
+
+export function isValidTargetPrice(targetPrice: unknown): targetPrice is number {
+  return typeof targetPrice === 'number' && isFinite(targetPrice) && targetPrice > 0;
+}
+
+export function shouldAlert(settings: AlertSettings, previousPrice: number, newPrice: number): boolean {
+  // A threshold of 0 leaves only target-price and all-time-low alerts
+  if (!settings.enabled || settings.threshold <= 0 || newPrice === previousPrice) {
+    return false;
+  }
+
+  const change = getPercentChange(previousPrice, newPrice);
+  if (Math.abs(change) < settings.threshold) {
+    return false;
+  }
+
+  switch (settings.type) {
+    case 'decrease':
+      return change < 0;
+    case 'increase':
+      return change > 0;
+    default:
+      return true;
+  }
+}
+
+export function isBackInStock(previousAvailability: string | undefined, availability: string | undefined): boolean {
+  return availability === 'available' &&
+    (previousAvailability === 'out_of_stock' || previousAvailability === 'backorder');
+}
+
+export function getProductIdFromNotification(notificationId: string): string | null {
+  if (!notificationId.startsWith(ALERT_NOTIFICATION_PREFIX)) return null;
+  const rest = notificationId.substring(ALERT_NOTIFICATION_PREFIX.length);
+  const separator = rest.lastIndexOf(':');
+  return separator > 0 ? rest.substring(0, separator) : null;
+}
+
+export class AlertEngine {
+  public readonly STATE_KEY = 'alertState';
+
+  constructor(private storage: ProductStorageManager) {}
+
+  private getMessage(key: string, substitutions?: string[]): string {
+    try {
+      return chrome.i18n.getMessage(key, substitutions) || key;
+    } catch (error) {
+      return key;
+    }
+  }
+
+  async getAlertState(productId: string): Promise<AlertState> {
+    const result = await chrome.storage.local.get(this.STATE_KEY);
+    const allState = result?.[this.STATE_KEY] || {};
+    return allState[productId] || {};
+  }
+
+  async saveAlertState(productId: string, state: AlertState): Promise<void> {
+    const result = await chrome.storage.local.get(this.STATE_KEY);
+    const allState = result?.[this.STATE_KEY] || {};
+    allState[productId] = state;
+    await chrome.storage.local.set({ [this.STATE_KEY]: allState });
+  }
+
+  async clearAlertState(productId: string): Promise<void> {
+    const result = await chrome.storage.local.get(this.STATE_KEY);
+    const allState = result?.[this.STATE_KEY] || {};
+    for (const key of Object.keys(allState)) {
+      if (key === productId || key.startsWith(`${productId}${VARIANT_SEPARATOR}`)) {
+        delete allState[key];
+      }
+    }
+    await chrome.storage.local.set({ [this.STATE_KEY]: allState });
+  }
+
+  async clearAllAlertState(): Promise<void> {
+    await chrome.storage.local.remove(this.STATE_KEY);
+  }
+
+  async resetTargetState(productId: string): Promise<void> {
+    const state = await this.getAlertState(productId);
+    if (state.targetTriggered) {
+      delete state.targetTriggered;
+      await this.saveAlertState(productId, state);
+    }
+  }
+
+  // Variant points arrive under productId#variantId and alert as their own product
+  async getAlertTarget(key: string): Promise<Product | null> {
+    const { productId, variantId } = parseHistoryKey(key);
+    const product = await this.storage.getProduct(productId);
+    if (!product || variantId === null) return product;
+    return toVariantProduct(product, variantId);
+  }
+
+  async handlePricePoint(productId: string, point: PricePoint, previous: PricePoint | null): Promise<boolean> {
+    const product = await this.getAlertTarget(productId);
+    if (!product?.alerts?.enabled && !product?.alerts?.notifyBackInStock) return false;
+
+    const state = await this.getAlertState(productId);
+
+    // The same point can reach us from more than one write path
+    if (state.lastPointTimestamp !== undefined && point.timestamp <= state.lastPointTimestamp) {
+      return false;
+    }
+
+    // Thresholds and targets apply to whichever price the user compares on
+    const pricing = await getPricingOptions();
+    const pricedPoint = toPriceBasis(point, pricing);
+    const pricedPrevious = previous && toPriceBasis(previous, pricing);
+
+    const nextState: AlertState = { ...state, lastPointTimestamp: point.timestamp };
+    const reason = await this.evaluate(product, pricedPoint, pricedPrevious, state, nextState, pricing);
+
+    if (reason) {
+      await this.notify(product, reason, pricedPoint, pricedPrevious);
+    }
+
+    await this.saveAlertState(productId, nextState);
+    return reason !== null;
+  }
+
+  private async evaluate(
+    product: Product,
+    point: PricePoint,
+    previous: PricePoint | null,
+    state: AlertState,
+    nextState: AlertState,
+    pricing: PricingOptions
+  ): Promise<AlertReason | null> {
+    const settings = product.alerts;
+    let reason: AlertReason | null = null;
+
+    // Points recorded before availability was tracked fall back to the product
+    const previousAvailability = previous?.availability ?? product.availability;
+    if (settings.notifyBackInStock && isBackInStock(previousAvailability, point.availability)) {
+      reason = 'backInStock';
+    }
+
+    if (!settings.enabled) return reason;
+
+    // Target alerts fire once on the way down and re-arm above the target
+    if (isValidTargetPrice(settings.targetPrice)) {
+      if (point.price <= settings.targetPrice) {
+        // A restock at the target reports both, so the target isn't used up silently
+        if (!state.targetTriggered) reason = reason === 'backInStock' ? 'backInStockAtTarget' : 'target';
+        nextState.targetTriggered = true;
+      } else {
+        delete nextState.targetTriggered;
+      }
+    }
+
+    if (!reason && settings.belowAllTimeLow) {
+      // Weekly rollups count too, so old sale prices still set the bar
+      const series = seriesToPriceBasis(await this.storage.getPriceSeries(product.id), pricing);
+      const earlier = series.filter(entry => entry.timestamp < point.timestamp);
+      if (earlier.length > 0 && point.price < Math.min(...earlier.map(entry => entry.min ?? entry.price))) {
+        reason = 'allTimeLow';
+      }
+    }
+
+    if (previous && shouldAlert(settings, previous.price, point.price)) {
+      // Don't repeat ourselves until the price has moved out of alert range
+      if (!reason && state.lastNotifiedPrice !== point.price) {
+        reason = 'change';
+      }
+      nextState.lastNotifiedPrice = point.price;
+    } else {
+      delete nextState.lastNotifiedPrice;
+    }
+
+    return reason;
+  }
+
+  async notify(product: Product, reason: AlertReason, point: PricePoint, previous: PricePoint | null): Promise<void> {
+    const newPrice = `¥${point.price.toLocaleString()}`;
+    let title: string;
+    let message: string;
+
+    if (reason === 'backInStock') {
+      title = this.getMessage('backInStockAlertTitle');
+      message = this.getMessage('backInStockAlertMessage', [newPrice]);
+    } else if (reason === 'target' || reason === 'backInStockAtTarget') {
+      title = this.getMessage(reason === 'target' ? 'targetPriceReachedTitle' : 'backInStockAlertTitle');
+      message = this.getMessage('targetPriceReachedMessage', [
+        newPrice,
+        `¥${(product.alerts.targetPrice || 0).toLocaleString()}`
+      ]);
+    } else {
+      const previousPrice = previous ? previous.price : product.price;
+      const change = getPercentChange(previousPrice, point.price);
+      const percent = `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+
+      if (reason === 'allTimeLow') {
+        title = this.getMessage('allTimeLowAlertTitle');
+      } else {
+        title = this.getMessage(change < 0 ? 'priceDropAlertTitle' : 'priceRiseAlertTitle');
+      }
+      message = this.getMessage('priceChangeAlertMessage', [
+        `¥${previousPrice.toLocaleString()}`,
+        newPrice,
+        percent
+      ]);
+    }
+
+    await chrome.notifications.create(`${ALERT_NOTIFICATION_PREFIX}${product.id}:${point.timestamp}`, {
+      type: 'basic',
+      iconUrl: 'icons/icon-128.png',
+      title,
+      message,
+      contextMessage: product.title
+    });
+  }
+}
@@ -1,4 +1,16 @@
 import { ProductStorageManager } from '../lib/storage-manager.js';
+import type { SeriesPoint } from '../lib/price-history.js';
+import { getProductIdFromUrl, getSiteAdapter } from '../lib/sites/index.js';
+import { computePriceStats, type PriceStats, type ProductOverview } from '../lib/price-stats.js';
+import { getVariantKey, parseHistoryKey } from '../lib/variants.js';
+import { seriesToPriceBasis } from '../lib/effective-price.js';
+import { annotateCampaigns, getCampaignCalendar } from '../lib/campaigns.js';
+import { getPricingOptions } from '../lib/settings.js';
+import { saveExtractionReport } from '../lib/diagnostics.js';
+import { saveSnapshot } from '../lib/snapshots.js';
+import { sendTabMessage, validateBackgroundRequest } from '../lib/messages.js';
+import { DEFAULT_CHECK_INTERVAL_MINUTES, ScheduledPriceChecker } from './price-checker.js';
+import { AlertEngine, getProductIdFromNotification, isValidTargetPrice } from './alert-engine.js';
 
 interface ChromeAlarm {
   name: string;
@@ -10,42 +22,141 @@ interface NavigationDetails {
   tabId: number;
 }
 
-interface MessageRequest {
-  action: string;
-  data?: any;
-  productId?: string;
-  updates?: any;
-}
-
 interface InstallDetails {
   reason: string;
 }
 
+export const PRICE_CHECK_ALARM = 'scheduled-price-check';
+// The alarm ticks more often than the check interval so rate-limited
+// and backed-off products are picked up without waiting a full interval
+export const PRICE_CHECK_TICK_MINUTES = 30;
+
 export class BackgroundService {
   private storage: ProductStorageManager;
+  private priceChecker: ScheduledPriceChecker;
+  private alerts: AlertEngine;
+  private checkInProgress = false;
 
   constructor() {
     this.storage = new ProductStorageManager();
+    this.priceChecker = new ScheduledPriceChecker(this.storage);
+    this.alerts = new AlertEngine(this.storage);
+    this.storage.onPricePoint(async (productId, point, previous) => {
+      await this.alerts.handlePricePoint(productId, point, previous);
+    });
     this.initializeService();
   }
 
   private initializeService(): void {
-    // Set up event listeners - simplified for passive tracking only
+    chrome.runtime.onInstalled.addListener(this.handleInstalled.bind(this));
     chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       this.handleMessage(message, sender, sendResponse);
       return true; // Keep message channel open for async response
     });
     chrome.webNavigation.onCompleted.addListener(this.handleNavigation.bind(this));
+    chrome.webNavigation.onHistoryStateUpdated.addListener(this.handleHistoryStateUpdate.bind(this));
+    chrome.alarms.onAlarm.addListener(this.handleAlarm.bind(this));
+    chrome.notifications.onClicked.addListener(this.handleNotificationClick.bind(this));
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'sync') return;
+      if (changes.priceCheckInterval) {
+        this.schedulePriceChecks();
+      }
+      if (changes.historyRetentionDays) {
+        this.applyRetention(changes.historyRetentionDays.newValue);
+      }
+    });
+    this.ensurePriceChecks();
+  }
+
+  async handleInstalled(details: InstallDetails): Promise<void> {
+    try {
+      const migration = await this.storage.migrateStorage();
+      if (migration) {
+        console.log(`Migrated storage from schema ${migration.from} to ${migration.to} (${details.reason})`);
+      }
+    } catch (error) {
+      console.error('Storage migration failed:', error);
+    }
+  }
+
+  async getCheckInterval(): Promise<number> {
+    const settings = await chrome.storage.sync.get('priceCheckInterval');
+    const interval = settings?.priceCheckInterval;
+    return typeof interval === 'number' && interval >= 0 ? interval : DEFAULT_CHECK_INTERVAL_MINUTES;
+  }
+
+  // An interval of 0 turns scheduled checks off
+  private getAlarmPeriod(interval: number): number | null {
+    return interval > 0 ? Math.min(interval, PRICE_CHECK_TICK_MINUTES) : null;
   }
 
-  async handleMessage(message: MessageRequest, sender: any, sendResponse: (response: any) => void): Promise<void> {
-    console.log('Background service received message:', message.action, message);
+  // The worker wakes on every navigation, so a running alarm with the right
+  // period is left alone rather than restarted
+  async ensurePriceChecks(): Promise<void> {
+    try {
+      const period = this.getAlarmPeriod(await this.getCheckInterval());
+      const alarm = await chrome.alarms.get(PRICE_CHECK_ALARM);
+      if ((alarm?.periodInMinutes ?? null) !== period) {
+        await this.schedulePriceChecks();
+      }
+    } catch (error) {
+      console.error('Failed to schedule price checks:', error);
+    }
+  }
+
+  async schedulePriceChecks(): Promise<void> {
+    try {
+      const period = this.getAlarmPeriod(await this.getCheckInterval());
+      await chrome.alarms.clear(PRICE_CHECK_ALARM);
+
+      if (period !== null) {
+        await chrome.alarms.create(PRICE_CHECK_ALARM, { delayInMinutes: 1, periodInMinutes: period });
+      }
+    } catch (error) {
+      console.error('Failed to schedule price checks:', error);
+    }
+  }
+
+  async applyRetention(retentionDays: unknown): Promise<void> {
+    if (typeof retentionDays !== 'number') return;
+
+    try {
+      const rolledUp = await this.storage.rollupHistory(retentionDays);
+      console.log('Rolled up price history points:', rolledUp);
+    } catch (error) {
+      console.error('Failed to roll up price history:', error);
+    }
+  }
+
+  async handleAlarm(alarm: ChromeAlarm): Promise<void> {
+    if (alarm.name !== PRICE_CHECK_ALARM || this.checkInProgress) {
+      return;
+    }
+
+    this.checkInProgress = true;
+    try {
+      const interval = await this.getCheckInterval();
+      if (interval === 0) return;
+
+      const summary = await this.priceChecker.runChecks({ intervalMinutes: interval });
+      console.log('Scheduled price check finished:', summary);
+    } catch (error) {
+      console.error('Scheduled price check failed:', error);
+    } finally {
+      this.checkInProgress = false;
+    }
+  }
+
+  async handleMessage(message: unknown, sender: any, sendResponse: (response: any) => void): Promise<void> {
+    console.log('Background service received message:', message);
     
     try {
-      switch (message.action) {
+      const request = validateBackgroundRequest(message);
+      switch (request.action) {
         case 'TRACK_PRODUCT':
-          console.log('Tracking product:', message.data);
-          const result = await this.storage.addProduct(message.data);
+          console.log('Tracking product:', request.data);
+          const result = await this.storage.addProduct(request.data);
           console.log('Track product result:', result);
           console.log('Sending response:', { success: true, data: result });
           sendResponse({ success: true, data: result });
@@ -60,43 +171,100 @@ export class BackgroundService {
           break;
           
         case 'UPDATE_PRODUCT':
+          const targetPrice = request.updates.alerts?.targetPrice;
+          if (targetPrice !== undefined && targetPrice !== null && !isValidTargetPrice(targetPrice)) {
+            throw new Error('Invalid target price');
+          }
           const updated = await this.storage.updateProduct(
-            message.productId!, 
-            message.updates
+            request.productId, 
+            request.updates
           );
+          if (targetPrice !== undefined) {
+            // A new target starts out armed
+            await this.alerts.resetTargetState(request.productId);
+          }
           sendResponse({ success: true, data: updated });
           break;
           
+        case 'UPDATE_VARIANT':
+          const variantTarget = request.updates.alerts?.targetPrice;
+          if (variantTarget !== undefined && variantTarget !== null && !isValidTargetPrice(variantTarget)) {
+            throw new Error('Invalid target price');
+          }
+          const withVariant = await this.storage.updateVariant(request.productId, request.variantId, request.updates);
+          if (variantTarget !== undefined) {
+            await this.alerts.resetTargetState(getVariantKey(request.productId, request.variantId));
+          }
+          sendResponse({ success: true, data: withVariant });
+          break;
+          
         case 'DELETE_PRODUCT':
-          await this.storage.deleteProduct(message.productId!);
+          await this.storage.deleteProduct(request.productId);
+          await this.alerts.clearAlertState(request.productId);
           sendResponse({ success: true });
           break;
           
         case 'GET_PRICE_HISTORY':
-          const history = await this.storage.getPriceHistory(message.productId!);
+          const history = await this.storage.getPriceHistory(request.productId);
           sendResponse({ success: true, data: history });
           break;
           
+        case 'GET_PRICE_SERIES':
+          sendResponse({ success: true, data: await this.getPriceSeries(request.productId) });
+          break;
+          
+        case 'GET_PRICE_STATS':
+          sendResponse({ success: true, data: await this.getPriceStats(request.productId) });
+          break;
+          
+        case 'GET_PRODUCT_OVERVIEW':
+          sendResponse({ success: true, data: await this.getProductOverview(request.productId) });
+          break;
+          
         case 'EXPORT_DATA':
           const exportData = await this.storage.exportData();
           sendResponse({ success: true, data: exportData });
           break;
           
+        case 'PREVIEW_IMPORT':
+          const preview = await this.storage.previewImport(request.data, request.mode);
+          sendResponse(preview);
+          break;
+          
         case 'IMPORT_DATA':
-          const importResult = await this.storage.importData(message.data);
+          const importResult = await this.storage.importData(request.data, request.mode);
           sendResponse(importResult);
           break;
 
+        case 'RESET_DATA':
+          await this.storage.clearAllData();
+          await this.alerts.clearAllAlertState();
+          sendResponse({ success: true });
+          break;
+
         case 'CHECK_AND_STORE_PRICE':
           // New action for passive price tracking
-          const { productId, price } = message;
-          const wasAdded = await this.storage.addPricePointIfNew(productId, price);
+          const { productId, price, availability, variant, extras } = request;
+          if (variant) {
+            // With an option selected the page shows that variant's price
+            const variantAdded = await this.storage.recordVariantObservation(productId, variant, price, availability, extras);
+            sendResponse({ success: true, priceAdded: variantAdded });
+            break;
+          }
+          const wasAdded = await this.storage.addPricePointIfNew(productId, price, availability, extras);
+          await this.storage.updateObservedState(productId, price, availability, extras);
           sendResponse({ success: true, priceAdded: wasAdded });
           break;
-          
-        default:
-          console.log('Unknown action, sending error response');
-          sendResponse({ success: false, error: 'Unknown action' });
+
+        case 'RECORD_EXTRACTION':
+          await saveExtractionReport(request.report);
+          sendResponse({ success: true });
+          break;
+
+        case 'SAVE_SNAPSHOT':
+          await saveSnapshot(request.snapshot);
+          sendResponse({ success: true });
+          break;
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -106,12 +274,54 @@ export class BackgroundService {
     }
   }
 
+  // Charts and stats follow the raw/effective price setting, with points
+  // inside a calendar campaign labelled with it
+  async getPriceSeries(productId: string): Promise<SeriesPoint[]> {
+    const series = seriesToPriceBasis(await this.storage.getPriceSeries(productId), await getPricingOptions());
+    return annotateCampaigns(series, await getCampaignCalendar());
+  }
+
+  // Stats for one product, or keyed by product id when none is given
+  async getPriceStats(productId?: string): Promise<PriceStats | null | Record<string, PriceStats | null>> {
+    if (productId) {
+      return computePriceStats(await this.getPriceSeries(productId));
+    }
+    
+    const pricing = await getPricingOptions();
+    const allSeries = await this.storage.getAllPriceSeries();
+    const stats: Record<string, PriceStats | null> = {};
+    for (const [id, series] of Object.entries(allSeries)) {
+      stats[id] = computePriceStats(seriesToPriceBasis(series, pricing));
+    }
+    return stats;
+  }
+
+  // Everything the on-page history panel needs in one round trip; null when untracked
+  async getProductOverview(productId: string): Promise<ProductOverview | null> {
+    const product = await this.storage.getProduct(productId);
+    if (!product) return null;
+    
+    const series = await this.getPriceSeries(productId);
+    return { product, series, stats: computePriceStats(series) };
+  }
+
+  async handleNotificationClick(notificationId: string): Promise<void> {
+    const alertKey = getProductIdFromNotification(notificationId);
+    if (!alertKey) return;
+
+    const product = await this.storage.getProduct(parseHistoryKey(alertKey).productId);
+    if (product) {
+      await chrome.tabs.create({ url: product.url });
+    }
+    await chrome.notifications.clear(notificationId);
+  }
+
   async handleNavigation(details: NavigationDetails): Promise<void> {
-    if (details.frameId === 0 && details.url.includes('item.rakuten.co.jp')) {
+    if (details.frameId === 0 && getSiteAdapter(details.url)) {
       // Check if this product is being tracked
       const productId = this.extractProductId(details.url);
       if (productId) {
-        const product = await this.storage.getProduct(productId);
+        const product = await this.storage.getProduct(productId) ?? await this.storage.findProductByUrl(details.url);
         
         if (product) {
           // Update badge to show tracking status
@@ -129,11 +339,22 @@ export class BackgroundService {
     }
   }
 
-  extractProductId(url: string): string | null {
-    const matches = url.match(/item\.rakuten\.co\.jp\/([^\/]+)\/([^\/]+)/);
-    if (matches) {
-      return `${matches[1]}_${matches[2]}`;
+  // Single-page storefronts change the URL without reloading, so the badge and
+  // the tab's content script are brought up to date by hand
+  async handleHistoryStateUpdate(details: NavigationDetails): Promise<void> {
+    if (details.frameId !== 0 || !getSiteAdapter(details.url)) return;
+
+    await chrome.action.setBadgeText({ text: '', tabId: details.tabId });
+    await this.handleNavigation(details);
+    try {
+      await sendTabMessage(details.tabId, { action: 'URL_CHANGED', url: details.url });
+    } catch (error) {
+      // Tabs opened before an update have no content script until reloaded
+      console.warn('Failed to notify tab of navigation:', error);
     }
-    return null;
+  }
+
+  extractProductId(url: string): string | null {
+    return getProductIdFromUrl(url);
   }
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+import type { Product, ProductStorageManager } from '../lib/storage-manager.js';
+import {
+  applyStructuredData,
+  getSiteAdapter,
+  parseStructuredData,
+  pickProductDetails,
+  rakutenAdapter,
+  type StructuredObservation
+} from '../lib/sites/index.js';
+import { pickPriceExtras } from '../lib/effective-price.js';
+
+export interface PriceCheckRunSummary {
+  checked: number;
+  updated: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface PriceCheckOptions {
+  intervalMinutes: number;
+  maxChecksPerRun?: number;
+  requestDelayMs?: number;
+}
+
+type Fetcher = (url: string) => Promise<Response>;
+
+export const DEFAULT_CHECK_INTERVAL_MINUTES = 720; // Twice a day
+export const MAX_CHECKS_PER_RUN = 10;
+export const REQUEST_DELAY_MS = 3000;
+export const MAX_BACKOFF_MINUTES = 7 * 24 * 60;
+
+// Pages from unknown hosts are read as Rakuten pages, as before adapters existed;
+// JSON-LD and microdata take precedence over the adapter's markup patterns
+export function parseProductPage(html: string, url = ''): StructuredObservation {
+  return applyStructuredData((getSiteAdapter(url) ?? rakutenAdapter).parsePage(html), parseStructuredData(html));
+}
+
+export class ScheduledPriceChecker {
+  constructor(
+    private storage: ProductStorageManager,
+    private fetcher: Fetcher = (url) => fetch(url, { credentials: 'omit' })
+  ) {}
+
+  isDue(product: Product, intervalMinutes: number, now: number): boolean {
+    if (product.nextCheckAt && product.nextCheckAt > now) {
+      return false; // Backing off after failures
+    }
+    const lastChecked = product.lastCheckedAt || 0;
+    return now - lastChecked >= intervalMinutes * 60 * 1000;
+  }
+
+  getBackoffMinutes(intervalMinutes: number, failures: number): number {
+    return Math.min(intervalMinutes * Math.pow(2, failures), MAX_BACKOFF_MINUTES);
+  }
+
+  async runChecks(options: PriceCheckOptions, now = Date.now()): Promise<PriceCheckRunSummary> {
+    const maxChecks = options.maxChecksPerRun ?? MAX_CHECKS_PER_RUN;
+    const delay = options.requestDelayMs ?? REQUEST_DELAY_MS;
+    const products = Object.values(await this.storage.getAllProducts());
+
+    // Oldest checks first so a rate-limited run still rotates through everything
+    const due = products
+      .filter(product => this.isDue(product, options.intervalMinutes, now))
+      .sort((a, b) => (a.lastCheckedAt || 0) - (b.lastCheckedAt || 0));
+
+    const batch = due.slice(0, maxChecks);
+    const summary: PriceCheckRunSummary = {
+      checked: 0,
+      updated: 0,
+      failed: 0,
+      skipped: due.length - batch.length
+    };
+
+    for (let i = 0; i < batch.length; i++) {
+      if (i > 0 && delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      const product = batch[i];
+      summary.checked++;
+      try {
+        const recorded = await this.checkProduct(product, now);
+        if (recorded) summary.updated++;
+      } catch (error) {
+        summary.failed++;
+        console.warn(`Scheduled price check failed for ${product.id}:`, error);
+        const failures = (product.checkFailures || 0) + 1;
+        await this.storage.updateProduct(product.id, {
+          checkFailures: failures,
+          nextCheckAt: now + this.getBackoffMinutes(options.intervalMinutes, failures) * 60 * 1000
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  async checkProduct(product: Product, now = Date.now()): Promise<boolean> {
+    const response = await this.fetcher(product.url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const observation = parseProductPage(await response.text(), product.url);
+    if (observation.price === null) {
+      throw new Error('Price not found on page');
+    }
+
+    // Record before updating the product so alerts still see the old state
+    const extras = pickPriceExtras(observation);
+    const recorded = await this.storage.addPricePointIfNew(product.id, observation.price, observation.availability, extras);
+
+    await this.storage.updateProduct(product.id, {
+      title: observation.title || product.title,
+      price: observation.price,
+      availability: observation.availability,
+      ...pickProductDetails(observation),
+      ...extras,
+      fieldSources: observation.fieldSources,
+      lastCheckedAt: now,
+      checkFailures: 0,
+      nextCheckAt: undefined
+    });
+
+    return recorded;
+  }
+}
@@ -1,47 +1,42 @@
-import { RakutenProductExtractor } from './rakuten-extractor.js';
+import { ProductExtractor } from './product-extractor.js';
+import { testRules } from '../lib/sites/index.js';
+import { validateContentRequest } from '../lib/messages.js';
 
-// Initialize when DOM is ready
+let extractor: ProductExtractor | null = null;
+
+// Each page's extraction is recorded for the settings page's Extraction health panel
 function initializeExtractor() {
-  console.log('🟢 Rakuten Price Tracker: Content script starting');
-  console.log('🔍 Current URL:', window.location.href);
-  console.log('📄 Document ready state:', document.readyState);
-  
-  const extractor = new RakutenProductExtractor();
-  
-  // Add debug helper to window for testing
-  (window as any).rptDebug = {
-    enableDebugMode: async () => {
-      await chrome.storage.sync.set({ debugMode: true });
-      console.log('🐛 Debug mode enabled. Reloading...');
-      window.location.reload();
-    },
-    disableDebugMode: async () => {
-      await chrome.storage.sync.set({ debugMode: false });
-      console.log('🐛 Debug mode disabled. Reloading...');
-      window.location.reload();
-    },
-    showButton: () => {
-      extractor.injectTrackingUI();
-      console.log('🎨 Button manually injected for testing');
-    }
-  };
-  
-  console.log('🔧 Debug commands available:');
-  console.log('   - rptDebug.enableDebugMode() - Show button on all pages');
-  console.log('   - rptDebug.disableDebugMode() - Normal mode');
-  console.log('   - rptDebug.showButton() - Force show button');
-  
+  extractor = new ProductExtractor();
+
   extractor.init().catch(error => {
-    console.error('❌ Failed to initialize Rakuten Product Extractor:', error);
+    console.error('Failed to initialize Product Extractor:', error);
   });
 }
 
-console.log('🚀 Rakuten Price Tracker: Content script loaded');
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  try {
+    const request = validateContentRequest(message);
+    switch (request.action) {
+      // The options page tries rule pack edits against this tab before saving them
+      case 'TEST_RULES':
+        sendResponse({ success: true, data: testRules(document, request.rules) });
+        break;
+
+      // The background relays URLs pushed by single-page storefronts
+      case 'URL_CHANGED':
+        extractor?.handleUrlChange(request.url).catch(error => {
+          console.error('Failed to follow page navigation:', error);
+        });
+        sendResponse({ success: true });
+        break;
+    }
+  } catch (error) {
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
 
 if (document.readyState === 'loading') {
-  console.log('⏳ Waiting for DOMContentLoaded...');
   document.addEventListener('DOMContentLoaded', initializeExtractor);
 } else {
-  console.log('✅ Document already ready, initializing immediately');
   initializeExtractor();
-}
\ No newline at end of file
+}
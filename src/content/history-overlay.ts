@@ -0,0 +1,135 @@
+import type { SeriesPoint } from '../lib/price-history.js';
+import type { ProductOverview } from '../lib/price-stats.js';
+import { formatDay, type SupportedLanguage } from '../lib/i18n.js';
+
+export interface PriceChange {
+  amount: number;
+  percent: number;
+}
+
+export const SPARKLINE_WIDTH = 240;
+export const SPARKLINE_HEIGHT = 48;
+
+// SVG polyline points scaled to fit the box, oldest on the left
+export function buildSparklinePoints(
+  series: SeriesPoint[],
+  width = SPARKLINE_WIDTH,
+  height = SPARKLINE_HEIGHT
+): string {
+  if (series.length === 0) return '';
+
+  const sorted = [...series].sort((a, b) => a.timestamp - b.timestamp);
+  const prices = sorted.map(point => point.price);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const start = sorted[0].timestamp;
+  const span = sorted[sorted.length - 1].timestamp - start;
+  const priceRange = maxPrice - minPrice;
+  // Keep the stroke inside the box
+  const inset = 2;
+
+  return sorted.map(point => {
+    const x = span > 0 ? ((point.timestamp - start) / span) * width : width / 2;
+    const y = priceRange > 0
+      ? inset + (1 - (point.price - minPrice) / priceRange) * (height - inset * 2)
+      : height / 2;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+}
+
+export function getChangeSinceStart(series: SeriesPoint[]): PriceChange | null {
+  if (series.length < 2) return null;
+
+  const sorted = [...series].sort((a, b) => a.timestamp - b.timestamp);
+  const first = sorted[0].price;
+  const amount = sorted[sorted.length - 1].price - first;
+  return { amount, percent: first > 0 ? (amount / first) * 100 : 0 };
+}
+
+function formatYen(price: number): string {
+  return `¥${price.toLocaleString()}`;
+}
+
+export function createHistoryPanel(
+  overview: ProductOverview,
+  getMessage: (key: string) => string,
+  language: SupportedLanguage = 'ja'
+): HTMLElement {
+  const panel = document.createElement('div');
+  panel.dataset.rptPanel = 'history';
+
+  Object.assign(panel.style, {
+    marginBottom: '8px',
+    padding: '12px',
+    width: '280px',
+    background: 'white',
+    color: '#374151',
+    borderRadius: '12px',
+    boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+    fontSize: '12px',
+    display: 'none'
+  });
+
+  const heading = document.createElement('div');
+  heading.textContent = getMessage('priceHistory');
+  Object.assign(heading.style, { fontWeight: '600', fontSize: '13px', marginBottom: '8px' });
+  panel.appendChild(heading);
+
+  const points = buildSparklinePoints(overview.series);
+  if (overview.series.length > 1) {
+    const svgNs = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(svgNs, 'svg');
+    svg.setAttribute('width', '100%');
+    svg.setAttribute('viewBox', `0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`);
+    svg.setAttribute('preserveAspectRatio', 'none');
+    svg.setAttribute('aria-hidden', 'true');
+    svg.style.display = 'block';
+    svg.style.height = `${SPARKLINE_HEIGHT}px`;
+
+    const line = document.createElementNS(svgNs, 'polyline');
+    line.setAttribute('points', points);
+    line.setAttribute('fill', 'none');
+    line.setAttribute('stroke', '#3b82f6');
+    line.setAttribute('stroke-width', '2');
+    line.setAttribute('vector-effect', 'non-scaling-stroke');
+    svg.appendChild(line);
+    panel.appendChild(svg);
+  } else {
+    const empty = document.createElement('div');
+    empty.textContent = getMessage('notEnoughHistory');
+    Object.assign(empty.style, { color: '#6b7280', padding: '8px 0' });
+    panel.appendChild(empty);
+  }
+
+  const addRow = (label: string, value: string, color = '#111827') => {
+    const row = document.createElement('div');
+    Object.assign(row.style, { display: 'flex', justifyContent: 'space-between', gap: '8px', marginTop: '6px' });
+    const labelElement = document.createElement('span');
+    labelElement.textContent = label;
+    labelElement.style.color = '#6b7280';
+    const valueElement = document.createElement('span');
+    valueElement.textContent = value;
+    Object.assign(valueElement.style, { fontWeight: '600', color });
+    row.append(labelElement, valueElement);
+    panel.appendChild(row);
+  };
+
+  const { stats } = overview;
+  if (stats) {
+    const lowDate = formatDay(stats.allTimeLowAt, language);
+    addRow(getMessage('allTimeLow'), `${formatYen(stats.allTimeLow)} (${lowDate})`, '#15803d');
+  }
+
+  const change = getChangeSinceStart(overview.series);
+  if (change) {
+    const sign = change.amount > 0 ? '+' : change.amount < 0 ? '−' : '±';
+    const color = change.amount < 0 ? '#15803d' : change.amount > 0 ? '#b91c1c' : '#111827';
+    addRow(
+      getMessage('changeSinceTracking'),
+      `${sign}${formatYen(Math.abs(change.amount))} (${sign}${Math.abs(change.percent).toFixed(1)}%)`,
+      color
+    );
+  }
+
+  return panel;
+}
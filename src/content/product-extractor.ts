@@ -0,0 +1,804 @@
+import type { PriceExtras, ProductData } from '../lib/storage-manager.js';
+import type { ProductOverview } from '../lib/price-stats.js';
+import {
+  getProductId,
+  getRulePack,
+  getSiteAdapter,
+  isValidSelector,
+  pickProductDetails,
+  rakutenAdapter,
+  readStructuredData,
+  resolveFieldSources,
+  type ExtractionRules,
+  type ProductUrlParts,
+  type RulePack,
+  type SiteAdapter,
+  type StructuredData
+} from '../lib/sites/index.js';
+import type { VariantSelection } from '../lib/variants.js';
+import { pickPriceExtras } from '../lib/effective-price.js';
+import { diagnosePage, type DetectionMethod } from '../lib/diagnostics.js';
+import { createSnapshot } from '../lib/snapshots.js';
+import { PROTOCOL_MISMATCH_ERROR, sendMessage } from '../lib/messages.js';
+import { createHistoryPanel } from './history-overlay.js';
+import { SUPPORTED_LANGUAGES, type SupportedLanguage } from '../lib/i18n.js';
+
+export interface ExtractedProductData extends ProductData {
+  availability: string;
+  timestamp: number;
+}
+
+// Pages re-render the price a moment after an option is chosen or a sale starts
+export const PAGE_SETTLE_MS = 500;
+
+// Query strings carry tracking parameters, not product identity
+function toPageKey(url: string): string {
+  const { origin, pathname } = new URL(url);
+  return `${origin}${pathname}`;
+}
+
+function findFirst(doc: Document, selectors: string[]): Element | null {
+  for (const selector of selectors) {
+    const element = isValidSelector(selector) ? doc.querySelector(selector) : null;
+    if (element) return element;
+  }
+  return null;
+}
+
+// The nearest element holding both the price and the stock status, so reviews,
+// ads and recommendations elsewhere on the page don't wake the observer
+function findPriceRegion(doc: Document, rules: ExtractionRules): Element {
+  const price = findFirst(doc, rules.price);
+  const stock = findFirst(doc, rules.availability);
+  let region = price?.parentElement ?? null;
+  while (region && stock && !region.contains(stock)) {
+    region = region.parentElement;
+  }
+  return region && region !== doc.documentElement ? region : doc.body;
+}
+
+function isOwnUi(node: Node): boolean {
+  const element = node instanceof Element ? node : node.parentElement;
+  return !!element?.closest('#rakuten-price-tracker-fab');
+}
+
+export class ProductExtractor {
+  public productData: ExtractedProductData | null = null;
+  public trackingEnabled = true;
+  private lastVariantId: string | null = null;
+  private rulePack: RulePack | null = null;
+  private detection: DetectionMethod = 'none';
+  private debugMode = false;
+  private autoTrack = true;
+  private pageUrl: string | null = null;
+  private pageObserver: MutationObserver | null = null;
+  private observedRegion: Element | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private listening = false;
+  // The rendered price shown when the page was read, which JSON-LD may disagree with
+  private renderedPrice: number | null = null;
+  // The language chosen in settings, for dates in the history panel
+  private language: SupportedLanguage = 'ja';
+
+  constructor() {
+    this.initializeLanguage();
+  }
+
+  private async initializeLanguage(): Promise<void> {
+    try {
+      const result = await chrome.storage.sync.get('selectedLanguage');
+      if (result?.selectedLanguage in SUPPORTED_LANGUAGES) {
+        this.language = result.selectedLanguage;
+      }
+    } catch (error) {
+      console.warn('Failed to load language preference, using Japanese:', error);
+    }
+  }
+
+  private getMessage(key: string): string {
+    try {
+      return chrome.i18n.getMessage(key) || key;
+    } catch (error) {
+      console.warn(`Failed to get message for key "${key}":`, error);
+      return key;
+    }
+  }
+
+  async init(): Promise<void> {
+    const settings = await chrome.storage.sync.get(['trackingEnabled', 'debugMode', 'autoTrack']);
+    this.trackingEnabled = settings.trackingEnabled !== false;
+    this.debugMode = settings.debugMode || false;
+    this.autoTrack = settings.autoTrack !== undefined ? settings.autoTrack : true;
+
+    // Pushed URLs arrive from the background; back and forward only fire here
+    window.addEventListener('popstate', () => this.handleUrlChange(window.location.href));
+    await this.loadPage();
+  }
+
+  // Everything that belongs to one product page, run again after soft navigation
+  async loadPage(): Promise<void> {
+    const pageUrl = toPageKey(window.location.href);
+    this.pageUrl = pageUrl;
+    await this.loadRulePack();
+
+    const detection = await this.detectProductPage();
+    // Detection takes seconds, during which the shopper may have moved on
+    if (this.pageUrl !== pageUrl) return;
+    const isProduct = detection !== 'none';
+    this.detection = isProduct ? detection : 'debug';
+
+    if ((isProduct && this.trackingEnabled) || this.debugMode) {
+      this.extractProductData();
+      this.injectTrackingUI();
+      await this.recordExtraction(this.detection);
+
+      if (this.autoTrack && !this.debugMode && this.productData) {
+        await this.autoTrackProduct();
+      }
+
+      // Passively check and store today's price if needed
+      if (!this.debugMode) {
+        await this.checkAndStoreTodaysPrice();
+        await this.loadHistoryPanel();
+        this.watchPage();
+      }
+    } else if (this.trackingEnabled && this.isProductUrl()) {
+      // A product URL whose page couldn't be read is what the health panel is for
+      await this.recordExtraction('none');
+    }
+  }
+
+  // Single-page storefronts swap the product without reloading the content script
+  async handleUrlChange(url: string): Promise<void> {
+    if (toPageKey(url) === this.pageUrl) return;
+
+    this.stopWatching();
+    this.productData = null;
+    this.lastVariantId = null;
+    await this.loadPage();
+  }
+
+  // Tries on load, then with delays, then while the page keeps rendering
+  async detectProductPage(): Promise<DetectionMethod> {
+    if (this.isProductPage()) return 'immediate';
+    if (await this.retryProductDetection()) return 'retry';
+    if (await this.waitForProductElements()) return 'mutation';
+    return 'none';
+  }
+
+  // Debug mode can show the button on any page, which is read as Rakuten
+  get adapter(): SiteAdapter {
+    const adapter = getSiteAdapter(window.location.href) ?? rakutenAdapter;
+    return this.rulePack && adapter.withRules ? adapter.withRules(this.rulePack.rules) : adapter;
+  }
+
+  // Sites without a rule pack keep the selectors built into their adapter
+  async loadRulePack(): Promise<void> {
+    try {
+      const adapter = getSiteAdapter(window.location.href) ?? rakutenAdapter;
+      this.rulePack = adapter.withRules ? await getRulePack(adapter.id) : null;
+    } catch (error) {
+      console.warn('Failed to load rule pack, using bundled selectors:', error);
+    }
+  }
+
+  // Reads every field afresh so failed pages are reported as fully as good ones
+  async recordExtraction(detection: DetectionMethod): Promise<void> {
+    const report = diagnosePage(document, window.location.href, this.adapter, detection);
+
+    try {
+      await sendMessage({ action: 'RECORD_EXTRACTION', report });
+    } catch (error) {
+      console.error('Failed to record extraction diagnostics:', error);
+    }
+  }
+
+  isProductUrl(): boolean {
+    return !!getSiteAdapter(window.location.href)?.parseProductUrl(window.location.href);
+  }
+
+  isProductPage(): boolean {
+    return this.isProductUrl() && !!this.getProductTitle();
+  }
+
+  // JSON-LD and microdata come first; the adapter's selectors only fill what they lack
+  getStructuredData(): StructuredData {
+    return readStructuredData(document);
+  }
+
+  getProductTitle(): string | null {
+    return this.getStructuredData().product.title ?? this.adapter.getTitle(document);
+  }
+
+  getProductPrice(): number | null {
+    return this.getStructuredData().product.price ?? this.adapter.getPrice(document);
+  }
+
+  getAvailability(): string {
+    return this.getStructuredData().product.availability ?? this.adapter.getAvailability(document);
+  }
+
+  getSelectedVariant(): VariantSelection | null {
+    return this.adapter.getSelectedVariant?.(document) ?? null;
+  }
+
+  getPriceExtras(): PriceExtras {
+    return this.adapter.getPriceExtras?.(document) ?? {};
+  }
+
+  private getUrlParts(): ProductUrlParts | null {
+    const { hostname, pathname } = window.location;
+    return this.adapter.parseProductUrl(`https://${hostname}${pathname}`);
+  }
+
+  extractShopId(): string | null {
+    return this.getUrlParts()?.shopId || null;
+  }
+
+  extractItemCode(): string | null {
+    return this.getUrlParts()?.itemCode || null;
+  }
+
+  getSeller(): string | null {
+    return this.adapter.getSeller(document, this.getUrlParts());
+  }
+
+  extractProductData(): ExtractedProductData {
+    const structured = this.getStructuredData();
+    const title = this.getProductTitle();
+    const price = this.getProductPrice();
+    const availability = this.getAvailability();
+    const shopId = this.extractShopId();
+    const itemCode = this.extractItemCode();
+    const seller = this.getSeller();
+    const productCode = this.adapter.getProductCode?.(document);
+
+    const productInfo: ExtractedProductData = {
+      url: window.location.href,
+      shopId: shopId || '',
+      itemCode: itemCode || '',
+      title: title || '',
+      price: price || 0,
+      seller: seller || undefined,
+      ...(productCode ? { productCode } : {}),
+      availability,
+      ...pickProductDetails(structured.product),
+      ...this.getPriceExtras(),
+      fieldSources: resolveFieldSources(structured.sources, { title, price, availability }),
+      timestamp: Date.now()
+    };
+
+    this.productData = productInfo;
+    this.renderedPrice = this.adapter.getPrice(document);
+    return productInfo;
+  }
+
+  injectTrackingUI(): void {
+    // Check if button already exists
+    if (document.querySelector('#rakuten-price-tracker-fab')) {
+      document.querySelector('#rakuten-price-tracker-fab')?.remove();
+    }
+    
+    // Create floating action button container
+    const trackButton = document.createElement('div');
+    trackButton.id = 'rakuten-price-tracker-fab';
+    
+    // Apply container styles inline
+    Object.assign(trackButton.style, {
+      position: 'fixed',
+      bottom: '10px',
+      left: '20px',
+      zIndex: '999999',
+      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+      fontSize: '14px',
+      pointerEvents: 'auto'
+    });
+    
+    // Get product info for display FIRST
+    const productTitle = this.productData?.title || 'Product not detected';
+    const productPrice = this.productData?.price || 0;
+    const hasValidData = this.productData && this.productData.title && this.productData.price > 0;
+    const formattedPrice = productPrice ? `¥${productPrice.toLocaleString()}` : 'Price not detected';
+    const truncatedTitle = productTitle.length > 30 ? productTitle.substring(0, 30) + '...' : productTitle;
+    
+    // Set different button color based on detection success
+    const buttonColor = hasValidData ? '#3b82f6' : '#ef4444'; // Blue for success, red for failure
+    
+    // Choose icon and text based on validation
+    const iconPath = hasValidData 
+      ? '<path d="M19 3H5c-1.11 0-2 .9-2 2v14c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-2 10h-4v4h-2v-4H7v-2h4V7h2v4h4v2z"/>'
+      : '<path fill-rule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"/>';
+    
+    const buttonText = hasValidData ? this.getMessage('trackPrice') : '⚠️ Detection Issue';
+
+    // Create main button element
+    const button = document.createElement('button');
+    button.dataset.rptButton = 'track';
+    button.dataset.trackingState = 'idle';
+    
+    // Store validation state as data attribute for hover effects
+    button.dataset.hasValidData = hasValidData?.toString() || 'false';
+    button.dataset.defaultColor = buttonColor;
+    
+    // Apply button styles inline (now that buttonColor is defined)
+    Object.assign(button.style, {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '8px 12px',
+      background: buttonColor,
+      color: 'white',
+      border: 'none',
+      borderRadius: '16px',
+      cursor: 'pointer',
+      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+      transition: 'all 0.3s ease',
+      fontSize: '14px',
+      fontWeight: '500',
+      textDecoration: 'none',
+      minWidth: '280px',
+      maxWidth: '350px'
+    });
+
+    // Add SVG icon and detailed product info
+    button.innerHTML = `
+      <div style="display: flex; align-items: center; gap: 12px; width: 100%;">
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" style="flex-shrink: 0;">
+          ${iconPath}
+        </svg>
+        <div style="display: flex; flex-direction: column; align-items: flex-start; flex: 1; min-width: 0;">
+          <div class="rpt-button-text" style="font-weight: 600; font-size: 14px; margin-bottom: 2px;">
+            ${buttonText}
+          </div>
+          <div class="rpt-product-title" style="font-weight: 400; font-size: 12px; opacity: 0.9; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; max-width: 100%;" title="${productTitle}">
+            ${truncatedTitle}
+          </div>
+          <div class="rpt-product-price" style="font-weight: 600; font-size: 13px; color: #fef3c7; margin-top: 1px;">
+            ${formattedPrice}
+          </div>
+        </div>
+      </div>
+    `;
+    
+    // Create status indicator
+    const statusIndicator = document.createElement('div');
+    statusIndicator.className = 'rpt-status-indicator';
+    statusIndicator.dataset.rptStatus = 'indicator';
+    
+    // Apply status indicator styles inline
+    Object.assign(statusIndicator.style, {
+      marginTop: '8px',
+      padding: '8px 12px',
+      background: 'white',
+      borderRadius: '8px',
+      boxShadow: '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
+      fontSize: '12px',
+      fontWeight: '500',
+      color: '#374151',
+      whiteSpace: 'nowrap',
+      display: 'none'
+    });
+    
+    // Add hover effects
+    button.addEventListener('mouseenter', () => {
+      const trackingState = button.dataset.trackingState || 'idle';
+      if (trackingState === 'idle') {
+        const isValid = button.dataset.hasValidData === 'true';
+        const hoverColor = isValid ? '#2563eb' : '#dc2626';
+        button.style.background = hoverColor;
+        button.style.transform = 'translateY(-2px)';
+        button.style.boxShadow = '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)';
+      } else if (trackingState === 'tracking') {
+        button.style.background = '#059669';
+        button.style.transform = 'translateY(-2px)';
+        button.style.boxShadow = '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)';
+      } else if (trackingState === 'auto-tracked') {
+        button.style.background = '#7c3aed';
+        button.style.transform = 'translateY(-2px)';
+        button.style.boxShadow = '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)';
+      }
+    });
+    
+    button.addEventListener('mouseleave', () => {
+      const trackingState = button.dataset.trackingState || 'idle';
+      if (trackingState === 'idle') {
+        const defaultColor = button.dataset.defaultColor || '#3b82f6';
+        button.style.background = defaultColor;
+        button.style.transform = 'translateY(0)';
+        button.style.boxShadow = '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)';
+      } else if (trackingState === 'tracking') {
+        button.style.background = '#10b981';
+        button.style.transform = 'translateY(0)';
+        button.style.boxShadow = '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)';
+      } else if (trackingState === 'auto-tracked') {
+        button.style.background = '#8b5cf6';
+        button.style.transform = 'translateY(0)';
+        button.style.boxShadow = '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)';
+      }
+    });
+    
+    // Append elements
+    trackButton.appendChild(button);
+    if (!hasValidData) {
+      trackButton.appendChild(this.createCaptureButton());
+    }
+    trackButton.appendChild(statusIndicator);
+    document.body.appendChild(trackButton);
+
+    // Add click event listener
+    button.addEventListener('click', () => {
+      const isValid = button.dataset.hasValidData === 'true';
+      if (button.dataset.hasHistory === 'true') {
+        // Tracked products expand into their price history instead
+        this.toggleHistoryPanel();
+      } else if (isValid) {
+        this.trackProduct();
+      } else {
+        this.showStatus('Cannot track: Product data not detected', 'error');
+      }
+    });
+  }
+
+  // Offered when detection fails so the page can be replayed once the rules are fixed
+  private createCaptureButton(): HTMLButtonElement {
+    const captureButton = document.createElement('button');
+    captureButton.dataset.rptButton = 'capture';
+    captureButton.textContent = this.getMessage('capturePage');
+
+    Object.assign(captureButton.style, {
+      display: 'block',
+      marginTop: '6px',
+      padding: '4px 10px',
+      background: 'white',
+      color: '#dc2626',
+      border: '1px solid #fca5a5',
+      borderRadius: '12px',
+      cursor: 'pointer',
+      fontSize: '12px',
+      fontWeight: '500'
+    });
+
+    captureButton.addEventListener('click', () => this.capturePage());
+    return captureButton;
+  }
+
+  async capturePage(): Promise<void> {
+    try {
+      const report = diagnosePage(document, window.location.href, this.adapter, this.detection);
+      const response = await sendMessage({
+        action: 'SAVE_SNAPSHOT',
+        snapshot: createSnapshot(document, report)
+      });
+
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to save snapshot');
+      }
+      this.showStatus(this.getMessage('pageCaptured'), 'success');
+    } catch (error) {
+      console.error('Failed to capture page:', error);
+      this.showStatus(this.describeError(error), 'error');
+    }
+  }
+
+  async trackProduct(): Promise<void> {
+    if (!this.productData) return;
+
+    try {
+      const response = await sendMessage({
+        action: 'TRACK_PRODUCT',
+        data: this.productData
+      });
+
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+      this.updateButtonState('tracking');
+      this.showStatus(this.getMessage('trackingStarted'), 'success');
+      await this.loadHistoryPanel();
+    } catch (error) {
+      console.error('Failed to track product:', error);
+      this.showStatus(this.describeError(error), 'error');
+    }
+  }
+
+  // A page left open across an extension update is told to reload
+  private describeError(error: unknown): string {
+    return error instanceof Error && error.message === PROTOCOL_MISMATCH_ERROR
+      ? error.message
+      : this.getMessage('errorOccurred');
+  }
+
+  async autoTrackProduct(): Promise<void> {
+    if (!this.productData) return;
+
+    try {
+      const response = await sendMessage({
+        action: 'TRACK_PRODUCT',
+        data: this.productData
+      });
+
+      if (response.success) {
+        this.updateButtonState('auto-tracked');
+        this.showStatus('Auto-tracked!', 'success');
+      }
+    } catch (error) {
+      console.error('Failed to auto-track product:', error);
+      this.showStatus('Auto-track failed', 'error');
+    }
+  }
+
+  updateButtonState(state: string): void {
+    const button = document.querySelector('#rakuten-price-tracker-fab button') as HTMLElement;
+    if (button) {
+      if (state === 'tracking') {
+        // Update button styling for manual tracking state
+        button.classList.add('tracking');
+        button.dataset.trackingState = 'tracking';
+        button.style.background = '#10b981';
+        const textElement = button.querySelector('.rpt-button-text');
+        if (textElement) {
+          textElement.textContent = '✓ ' + this.getMessage('tracking');
+        }
+        
+        // Update icon to checkmark
+        const existingIcon = button.querySelector('svg');
+        if (existingIcon) {
+          existingIcon.innerHTML = `
+            <path fill-rule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"/>
+          `;
+        }
+      } else if (state === 'auto-tracked') {
+        // Update button styling for auto-tracked state
+        button.classList.add('tracking');
+        button.dataset.trackingState = 'auto-tracked';
+        button.style.background = '#8b5cf6'; // Purple color for auto-tracked
+        const textElement = button.querySelector('.rpt-button-text');
+        if (textElement) {
+          textElement.textContent = '⚡ Auto-tracked';
+        }
+        
+        // Update icon to lightning bolt
+        const existingIcon = button.querySelector('svg');
+        if (existingIcon) {
+          existingIcon.innerHTML = `
+            <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z"/>
+          `;
+        }
+      }
+    }
+  }
+
+  async loadHistoryPanel(): Promise<void> {
+    if (!this.productData) return;
+
+    try {
+      const response = await sendMessage({
+        action: 'GET_PRODUCT_OVERVIEW',
+        productId: this.generateProductId(this.productData.url)
+      });
+      const overview: ProductOverview | null = response?.success ? response.data : null;
+      const container = document.querySelector('#rakuten-price-tracker-fab');
+      const button = container?.querySelector('button') as HTMLElement | null;
+      if (!overview || !container || !button) return;
+
+      container.querySelector('[data-rpt-panel="history"]')?.remove();
+      const panel = createHistoryPanel(overview, key => this.getMessage(key), this.language);
+      container.insertBefore(panel, button);
+      button.dataset.hasHistory = 'true';
+      button.setAttribute('aria-expanded', 'false');
+      button.title = this.getMessage('showPriceHistory');
+    } catch (error) {
+      console.error('Failed to load price history panel:', error);
+    }
+  }
+
+  toggleHistoryPanel(): void {
+    const panel = document.querySelector('[data-rpt-panel="history"]') as HTMLElement;
+    const button = document.querySelector('#rakuten-price-tracker-fab button') as HTMLElement;
+    if (!panel || !button) return;
+
+    const expanded = panel.style.display === 'none';
+    panel.style.display = expanded ? 'block' : 'none';
+    button.setAttribute('aria-expanded', expanded.toString());
+    button.title = this.getMessage(expanded ? 'hidePriceHistory' : 'showPriceHistory');
+  }
+
+  showStatus(message: string, type: 'success' | 'error'): void {
+    const indicator = document.querySelector('[data-rpt-status="indicator"]') as HTMLElement;
+    if (indicator) {
+      // Show indicator and set message
+      indicator.style.display = 'block';
+      indicator.textContent = message;
+      
+      // Update colors based on type
+      if (type === 'success') {
+        indicator.style.background = '#f0fdf4';
+        indicator.style.color = '#166534';
+      } else {
+        indicator.style.background = '#fef2f2';
+        indicator.style.color = '#dc2626';
+      }
+      
+      setTimeout(() => {
+        indicator.style.display = 'none';
+        // Reset to default colors
+        indicator.style.background = 'white';
+        indicator.style.color = '#374151';
+      }, 3000);
+    }
+  }
+
+  async checkAndStoreTodaysPrice(): Promise<void> {
+    if (!this.productData) return;
+
+    try {
+      const productId = this.generateProductId(this.productData.url);
+      const variant = this.getSelectedVariant();
+      this.lastVariantId = variant?.id ?? null;
+      const extras = pickPriceExtras(this.productData);
+      const response = await sendMessage({
+        action: 'CHECK_AND_STORE_PRICE',
+        productId,
+        price: this.productData.price,
+        availability: this.productData.availability,
+        ...(variant ? { variant } : {}),
+        ...(Object.keys(extras).length > 0 ? { extras } : {})
+      });
+
+      if (response.success && response.priceAdded) {
+        console.log('Today\'s price stored for product:', this.productData.title);
+      }
+    } catch (error) {
+      console.error('Failed to check and store price:', error);
+    }
+  }
+
+  // Choosing an option, a time sale starting and re-renders all change the price
+  // in place: clicks and changes on option pickers cover the first, the observer the rest
+  watchPage(): void {
+    if (!this.listening && this.adapter.variantControls) {
+      const onOptionInput = (event: Event) => {
+        const controls = this.adapter.variantControls;
+        if (controls && event.target instanceof Element && event.target.closest(controls)) {
+          this.scheduleRefresh();
+        }
+      };
+      document.addEventListener('change', onOptionInput, true);
+      document.addEventListener('click', onOptionInput, true);
+      this.listening = true;
+    }
+    this.observeRegion();
+  }
+
+  private observeRegion(): void {
+    this.pageObserver?.disconnect();
+    this.observedRegion = findPriceRegion(document, this.adapter.rules);
+    this.pageObserver = new MutationObserver(mutations => {
+      if (mutations.some(mutation => !isOwnUi(mutation.target))) {
+        this.scheduleRefresh();
+      }
+    });
+    this.pageObserver.observe(this.observedRegion, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['disabled']
+    });
+  }
+
+  stopWatching(): void {
+    this.pageObserver?.disconnect();
+    this.pageObserver = null;
+    this.observedRegion = null;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    document.querySelector('#rakuten-price-tracker-fab')?.remove();
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => this.refreshObservation(), PAGE_SETTLE_MS);
+  }
+
+  // The background applies the recording policy, so every change is sent
+  async refreshObservation(): Promise<void> {
+    if (!this.productData) return;
+    // A re-rendered region leaves the observer watching detached nodes
+    if (this.observedRegion && !this.observedRegion.isConnected) {
+      this.observeRegion();
+    }
+
+    // JSON-LD is written once at page load, so it gives the price only until
+    // the rendered price moves away from the one shown alongside it
+    const variant = this.getSelectedVariant();
+    const rendered = this.adapter.getPrice(document);
+    const movedOn = rendered !== this.renderedPrice;
+    const price = movedOn ? rendered : this.getProductPrice();
+    const stock = this.adapter.getAvailability(document);
+    // Once an option was chosen, a half-made new choice isn't a price of its own
+    if (price === null || (!variant && this.lastVariantId)) return;
+
+    // Stock that can't be read from the page keeps the value found at load
+    const availability = stock === 'unknown' ? this.productData.availability : stock;
+    const unchanged = price === this.productData.price
+      && availability === this.productData.availability
+      && (variant?.id ?? null) === this.lastVariantId;
+    if (unchanged) return;
+
+    this.productData = {
+      ...this.productData,
+      price,
+      availability,
+      ...this.getPriceExtras(),
+      fieldSources: {
+        ...this.productData.fieldSources,
+        ...(movedOn ? { price: 'selector' as const } : {}),
+        availability: 'selector'
+      },
+      timestamp: Date.now()
+    };
+    this.updateButtonPrice(price);
+    await this.checkAndStoreTodaysPrice();
+  }
+
+  updateButtonPrice(price: number): void {
+    const priceElement = document.querySelector('#rakuten-price-tracker-fab .rpt-product-price');
+    if (priceElement) {
+      priceElement.textContent = `¥${price.toLocaleString()}`;
+    }
+  }
+
+  async retryProductDetection(): Promise<boolean> {
+    const maxAttempts = 10;
+    const delay = 500; // 500ms between attempts
+    
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Wait before checking
+      await new Promise(resolve => setTimeout(resolve, delay));
+      
+      // Check if elements are now available
+      if (this.isProductPage()) {
+        return true;
+      }
+    }
+    
+    return false;
+  }
+
+  async waitForProductElements(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeout = 5000; // 5 second timeout
+      let observer: MutationObserver | null = null;
+      
+      const timeoutId = setTimeout(() => {
+        observer?.disconnect();
+        resolve(false);
+      }, timeout);
+      
+      observer = new MutationObserver(() => {
+        if (this.isProductPage()) {
+          clearTimeout(timeoutId);
+          observer?.disconnect();
+          resolve(true);
+        }
+      });
+      
+      // Start observing
+      observer.observe(document.body, {
+        childList: true,
+        subtree: true,
+        attributes: false,
+        characterData: true
+      });
+    });
+  }
+
+  private generateProductId(url: string): string {
+    const productId = getProductId(url, this.productData?.productCode);
+    if (productId) {
+      return productId;
+    }
+    // Fallback to URL hash
+    return btoa(url).replace(/[^a-zA-Z0-9]/g, '').substring(0, 16);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,119 @@
+import type { SeriesPoint } from './price-history.js';
+
+// A named sale period; both ends are inclusive
+export interface Campaign {
+  name: string;
+  start: number;
+  end: number;
+}
+
+export interface PriceAverage {
+  average: number;
+  count: number;
+}
+
+export interface CampaignAverage extends PriceAverage {
+  name: string;
+}
+
+export interface CampaignPriceReport {
+  campaigns: CampaignAverage[];
+  offCampaign: PriceAverage | null;
+}
+
+export const CAMPAIGN_CALENDAR_KEY = 'campaignCalendar';
+
+// Banner wording for Rakuten's recurring sales
+export const KNOWN_CAMPAIGNS: { name: string; pattern: RegExp }[] = [
+  { name: '楽天スーパーSALE', pattern: /楽天スーパー\s*SALE|スーパーSALE|スーパーセール/i },
+  { name: 'お買い物マラソン', pattern: /お買い物マラソン|お買いものマラソン/ },
+  { name: '超ポイントバック祭', pattern: /超ポイントバック祭/ },
+  { name: 'ブラックフライデー', pattern: /ブラックフライデー|BLACK\s*FRIDAY/i }
+];
+
+// 開催予告 announces a sale that hasn't started yet
+export function detectCampaign(text: string): string | null {
+  if (/予告/.test(text)) return null;
+  return KNOWN_CAMPAIGNS.find(campaign => campaign.pattern.test(text))?.name ?? null;
+}
+
+export function findActiveCampaign(campaigns: Campaign[], timestamp: number): Campaign | null {
+  return campaigns.find(campaign => campaign.start <= timestamp && timestamp <= campaign.end) ?? null;
+}
+
+// Dates may be ISO strings or epoch milliseconds
+function parseCampaignDate(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) && value > 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const timestamp = Date.parse(value);
+  return isNaN(timestamp) ? null : timestamp;
+}
+
+export function parseCampaignCalendar(data: unknown): Campaign[] {
+  const entries = Array.isArray(data) ? data : (data as { campaigns?: unknown })?.campaigns;
+  if (!Array.isArray(entries)) {
+    throw new Error('Campaign calendar must be a list of campaigns');
+  }
+
+  return entries.map((entry, index) => {
+    const start = parseCampaignDate(entry?.start);
+    const end = parseCampaignDate(entry?.end);
+    if (typeof entry?.name !== 'string' || !entry.name.trim() || start === null || end === null || end < start) {
+      throw new Error(`Invalid campaign ${index}`);
+    }
+    return { name: entry.name.trim(), start, end };
+  });
+}
+
+// Imported campaigns replace ones with the same name and start
+export function mergeCampaigns(existing: Campaign[], incoming: Campaign[]): Campaign[] {
+  const merged = new Map(existing.map(campaign => [`${campaign.name}@${campaign.start}`, campaign]));
+  for (const campaign of incoming) {
+    merged.set(`${campaign.name}@${campaign.start}`, campaign);
+  }
+  return [...merged.values()].sort((a, b) => a.start - b.start);
+}
+
+// A banner seen on the page wins over the calendar; rolled-up weeks can span
+// a campaign's edges, so they are left unannotated
+export function annotateCampaigns<T extends SeriesPoint>(series: T[], campaigns: Campaign[]): T[] {
+  if (campaigns.length === 0) return series;
+  return series.map(point => {
+    if (point.campaign || point.rolledUp) return point;
+    const active = findActiveCampaign(campaigns, point.timestamp);
+    return active ? { ...point, campaign: active.name } : point;
+  });
+}
+
+function toAverage(prices: number[]): PriceAverage {
+  return { average: prices.reduce((sum, price) => sum + price, 0) / prices.length, count: prices.length };
+}
+
+// Averages per recorded point, so each observation counts once
+export function compareCampaignPrices(series: SeriesPoint[]): CampaignPriceReport {
+  const byCampaign = new Map<string, number[]>();
+  const offCampaign: number[] = [];
+
+  for (const point of series) {
+    if (point.rolledUp) continue;
+    if (point.campaign) {
+      byCampaign.set(point.campaign, [...(byCampaign.get(point.campaign) || []), point.price]);
+    } else {
+      offCampaign.push(point.price);
+    }
+  }
+
+  return {
+    campaigns: [...byCampaign.entries()].map(([name, prices]) => ({ name, ...toAverage(prices) })),
+    offCampaign: offCampaign.length > 0 ? toAverage(offCampaign) : null
+  };
+}
+
+export async function getCampaignCalendar(): Promise<Campaign[]> {
+  const result = await chrome.storage.local.get(CAMPAIGN_CALENDAR_KEY);
+  return result?.[CAMPAIGN_CALENDAR_KEY] || [];
+}
+
+export async function saveCampaignCalendar(campaigns: Campaign[]): Promise<void> {
+  await chrome.storage.local.set({ [CAMPAIGN_CALENDAR_KEY]: campaigns });
+}
@@ -0,0 +1,53 @@
+import { DAY_MS, type SeriesPoint } from './price-history.js';
+
+export type ChartRange = '30d' | '90d' | '1y' | 'all';
+
+export const CHART_RANGES: Record<ChartRange, number | null> = {
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  'all': null
+};
+
+// Extremes of a rolled-up week sit at its min or max rather than its average
+export interface PriceExtremes {
+  low: SeriesPoint;
+  high: SeriesPoint;
+}
+
+export function filterByRange(history: SeriesPoint[], range: ChartRange, now = Date.now()): SeriesPoint[] {
+  const days = CHART_RANGES[range];
+  const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  if (days === null) return sorted;
+
+  const since = now - days * DAY_MS;
+  return sorted.filter(point => point.timestamp >= since);
+}
+
+export function findExtremes(history: SeriesPoint[]): PriceExtremes | null {
+  if (history.length === 0) return null;
+
+  // Earliest occurrence wins so the marker sits where the price first hit it
+  let low = history[0];
+  let high = history[0];
+  for (const point of history) {
+    if ((point.min ?? point.price) < (low.min ?? low.price)) low = point;
+    if ((point.max ?? point.price) > (high.max ?? high.price)) high = point;
+  }
+  return {
+    low: { ...low, price: low.min ?? low.price },
+    high: { ...high, price: high.max ?? high.price }
+  };
+}
+
+export function getPriceDomain(history: SeriesPoint[]): [number, number] {
+  if (history.length === 0) return [0, 1];
+
+  const prices = history.flatMap(point => [point.min ?? point.price, point.max ?? point.price]);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+
+  // Give flat histories some room so the line doesn't sit on an edge
+  const padding = Math.max((max - min) * 0.1, max * 0.02, 1);
+  return [Math.max(0, Math.floor(min - padding)), Math.ceil(max + padding)];
+}
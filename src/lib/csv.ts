@@ -0,0 +1,315 @@
+import type { AlertSettings, ExportData, PricePoint, PriceRollup, Product, ProductVariant } from './storage-manager.js';
+import { getHistoryKeys } from './variants.js';
+
+export interface CsvExport {
+  products: string;
+  priceHistory: string;
+  priceRollups: string;
+}
+
+export const PRODUCT_COLUMNS = [
+  'id',
+  'url',
+  'title',
+  'price',
+  'shopId',
+  'itemCode',
+  'availability',
+  'createdAt',
+  'updatedAt',
+  'alertsEnabled',
+  'alertThreshold',
+  'alertType',
+  'targetPrice',
+  'belowAllTimeLow',
+  'notifyBackInStock',
+  'variants'
+];
+
+export const HISTORY_COLUMNS = ['productId', 'timestamp', 'price', 'availability', 'lastSeenAt', 'pointMultiplier', 'shippingCost', 'campaign'];
+
+// Weekly summaries of points older than the retention window
+export const ROLLUP_COLUMNS = ['productId', 'weekStart', 'min', 'max', 'average', 'count'];
+
+const REQUIRED_PRODUCT_COLUMNS = ['id', 'url', 'title', 'price'];
+const REQUIRED_HISTORY_COLUMNS = ['productId', 'timestamp', 'price'];
+
+function escapeCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Spreadsheet apps like to prepend a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+function toIsoDate(timestamp: number | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString() : '';
+}
+
+// Variants don't fit a flat row, so they travel as JSON in one cell; their
+// history rows are keyed productId#variantId like in storage
+function variantsToCell(variants: Product['variants']): string {
+  if (!variants || Object.keys(variants).length === 0) return '';
+  return JSON.stringify(Object.fromEntries(
+    Object.entries(variants).map(([variantId, { historySummary: _derived, ...variant }]) => [variantId, variant])
+  ));
+}
+
+function parseVariants(value: string, productId: string): Record<string, ProductVariant> | undefined {
+  if (value === '') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid variants for product ${productId}`);
+  }
+}
+
+export function exportToCsv(data: ExportData): CsvExport {
+  const productRows = Object.values(data.products).map(product => [
+    product.id,
+    product.url,
+    product.title,
+    product.price,
+    product.shopId,
+    product.itemCode,
+    product.availability,
+    toIsoDate(product.createdAt),
+    toIsoDate(product.updatedAt),
+    product.alerts?.enabled,
+    product.alerts?.threshold,
+    product.alerts?.type,
+    product.alerts?.targetPrice,
+    product.alerts?.belowAllTimeLow,
+    product.alerts?.notifyBackInStock,
+    variantsToCell(product.variants)
+  ]);
+
+  // Pages viewed with auto-track off keep history without a product, and
+  // the import can't place it, so only tracked products' keys are written
+  const historyKeys = Object.values(data.products).flatMap(getHistoryKeys);
+
+  const historyRows: unknown[][] = [];
+  for (const productId of historyKeys) {
+    for (const point of data.priceHistory[productId] || []) {
+      historyRows.push([
+        productId,
+        toIsoDate(point.timestamp),
+        point.price,
+        point.availability,
+        toIsoDate(point.lastSeenAt),
+        point.pointMultiplier,
+        point.shippingCost,
+        point.campaign
+      ]);
+    }
+  }
+
+  const rollupRows: unknown[][] = [];
+  for (const productId of historyKeys) {
+    for (const week of data.priceRollups?.[productId] || []) {
+      rollupRows.push([productId, toIsoDate(week.weekStart), week.min, week.max, week.average, week.count]);
+    }
+  }
+
+  return {
+    products: toCsv([PRODUCT_COLUMNS, ...productRows]),
+    priceHistory: toCsv([HISTORY_COLUMNS, ...historyRows]),
+    priceRollups: toCsv([ROLLUP_COLUMNS, ...rollupRows])
+  };
+}
+
+function toRecords(text: string, required: string[], fileLabel: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error(`The ${fileLabel} CSV is empty`);
+  }
+
+  const columns = header.map(column => column.trim());
+  for (const column of required) {
+    if (!columns.includes(column)) {
+      throw new Error(`Missing column ${column} in ${fileLabel} CSV`);
+    }
+  }
+
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+// Unparseable values are passed through so import validation reports them
+function parseNumber(value: string): number | undefined {
+  if (value === '') return undefined;
+  const number = Number(value.replace(/,/g, ''));
+  return isNaN(number) ? (value as unknown as number) : number;
+}
+
+function parseTimestamp(value: string): number | undefined {
+  if (value === '') return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const timestamp = Date.parse(value);
+  return isNaN(timestamp) ? (value as unknown as number) : timestamp;
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  if (value === '') return undefined;
+  return value.toLowerCase() === 'true' || value === '1';
+}
+
+function getHeader(text: string): string[] {
+  return parseCsv(text.split(/\r?\n/, 1)[0])[0] ?? [];
+}
+
+export function isProductsCsv(text: string): boolean {
+  const header = getHeader(text);
+  return header.includes('url') && header.includes('id');
+}
+
+export function isRollupsCsv(text: string): boolean {
+  return getHeader(text).includes('weekStart');
+}
+
+export function csvToExportData(productsCsv: string, historyCsv?: string, rollupsCsv?: string): ExportData {
+  const products: Record<string, Product> = {};
+  const priceHistory: Record<string, PricePoint[]> = {};
+  const priceRollups: Record<string, PriceRollup[]> = {};
+  const now = Date.now();
+
+  for (const record of toRecords(productsCsv, REQUIRED_PRODUCT_COLUMNS, 'products')) {
+    const alerts: Partial<AlertSettings> = {};
+    const enabled = parseBoolean(record.alertsEnabled ?? '');
+    const threshold = parseNumber(record.alertThreshold ?? '');
+    const targetPrice = parseNumber(record.targetPrice ?? '');
+    const belowAllTimeLow = parseBoolean(record.belowAllTimeLow ?? '');
+    const notifyBackInStock = parseBoolean(record.notifyBackInStock ?? '');
+    if (enabled !== undefined) alerts.enabled = enabled;
+    if (threshold !== undefined) alerts.threshold = threshold;
+    if (record.alertType) alerts.type = record.alertType as AlertSettings['type'];
+    if (targetPrice !== undefined) alerts.targetPrice = targetPrice;
+    if (belowAllTimeLow !== undefined) alerts.belowAllTimeLow = belowAllTimeLow;
+    if (notifyBackInStock !== undefined) alerts.notifyBackInStock = notifyBackInStock;
+
+    const variants = parseVariants(record.variants ?? '', record.id);
+    products[record.id] = {
+      id: record.id,
+      url: record.url,
+      title: record.title,
+      price: parseNumber(record.price) as number,
+      shopId: record.shopId || '',
+      itemCode: record.itemCode || '',
+      ...(record.availability ? { availability: record.availability } : {}),
+      createdAt: parseTimestamp(record.createdAt ?? '') ?? now,
+      updatedAt: parseTimestamp(record.updatedAt ?? '') ?? now,
+      alerts: alerts as AlertSettings,
+      ...(variants ? { variants } : {})
+    };
+    for (const key of getHistoryKeys(products[record.id])) {
+      priceHistory[key] = [];
+      priceRollups[key] = [];
+    }
+  }
+
+  if (historyCsv) {
+    for (const record of toRecords(historyCsv, REQUIRED_HISTORY_COLUMNS, 'price history')) {
+      if (!priceHistory[record.productId]) {
+        throw new Error(`Price history references unknown product ${record.productId}`);
+      }
+      const point: PricePoint = {
+        price: parseNumber(record.price) as number,
+        timestamp: parseTimestamp(record.timestamp) as number
+      };
+      if (record.availability) {
+        point.availability = record.availability;
+      }
+      const lastSeenAt = parseTimestamp(record.lastSeenAt ?? '');
+      if (lastSeenAt !== undefined) {
+        point.lastSeenAt = lastSeenAt;
+      }
+      const pointMultiplier = parseNumber(record.pointMultiplier ?? '');
+      const shippingCost = parseNumber(record.shippingCost ?? '');
+      if (pointMultiplier !== undefined) point.pointMultiplier = pointMultiplier;
+      if (shippingCost !== undefined) point.shippingCost = shippingCost;
+      if (record.campaign) point.campaign = record.campaign;
+      priceHistory[record.productId].push(point);
+    }
+  }
+
+  if (rollupsCsv) {
+    for (const record of toRecords(rollupsCsv, ROLLUP_COLUMNS, 'weekly summary')) {
+      if (!priceRollups[record.productId]) {
+        throw new Error(`Weekly summary references unknown product ${record.productId}`);
+      }
+      priceRollups[record.productId].push({
+        weekStart: parseTimestamp(record.weekStart) as number,
+        min: parseNumber(record.min) as number,
+        max: parseNumber(record.max) as number,
+        average: parseNumber(record.average) as number,
+        count: parseNumber(record.count) as number
+      });
+    }
+  }
+
+  // CSV files don't record a schema version, so imports run every
+  // migration over them; each one is safe to repeat on current data
+  return {
+    version: '1.0.0',
+    exportDate: new Date(now).toISOString(),
+    products,
+    priceHistory,
+    priceRollups
+  };
+}
@@ -0,0 +1,341 @@
+import type { AlertSettings, ExportData, PricePoint, PriceRollup, Product } from './storage-manager.js';
+import { DEFAULT_ALERT_SETTINGS } from './settings.js';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, runMigrations } from './migrations.js';
+import { getHistoryKeys } from './variants.js';
+
+export type ImportMode = 'replace' | 'merge' | 'addOnly';
+
+export const IMPORT_MODES: ImportMode[] = ['merge', 'addOnly', 'replace'];
+
+export interface ImportPreview {
+  mode: ImportMode;
+  newCount: number;
+  updatedCount: number;
+  conflictCount: number;
+  unchangedCount: number;
+  removedCount: number;
+}
+
+export interface ImportPlan {
+  preview: ImportPreview;
+  appliedCount: number;
+  products: Record<string, Product>;
+  priceHistory: Record<string, PricePoint[]>;
+  priceRollups: Record<string, PriceRollup[]>;
+}
+
+export interface StoredData {
+  products: Record<string, Product>;
+  priceHistory: Record<string, PricePoint[]>;
+  priceRollups?: Record<string, PriceRollup[]>;
+}
+
+// Fields that change on every check and shouldn't make two records disagree
+const VOLATILE_FIELDS = ['historySummary', 'updatedAt', 'lastCheckedAt', 'checkFailures', 'nextCheckAt'];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidPrice(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+function validatePricePoint(point: unknown, productId: string, index: number): PricePoint {
+  if (!isObject(point) || !isValidPrice(point.price) ||
+      typeof point.timestamp !== 'number' || !isFinite(point.timestamp) || point.timestamp <= 0) {
+    throw new Error(`Invalid price point ${index} for product ${productId}`);
+  }
+  if (point.availability !== undefined && typeof point.availability !== 'string') {
+    throw new Error(`Invalid price point ${index} for product ${productId}`);
+  }
+  if (point.lastSeenAt !== undefined && (typeof point.lastSeenAt !== 'number' || point.lastSeenAt < point.timestamp)) {
+    throw new Error(`Invalid price point ${index} for product ${productId}`);
+  }
+  if ((point.pointMultiplier !== undefined && !isValidPrice(point.pointMultiplier)) ||
+      (point.shippingCost !== undefined && !isValidPrice(point.shippingCost)) ||
+      (point.campaign !== undefined && typeof point.campaign !== 'string')) {
+    throw new Error(`Invalid price point ${index} for product ${productId}`);
+  }
+  return point as PricePoint;
+}
+
+function validateRollup(week: unknown, productId: string, index: number): PriceRollup {
+  if (!isObject(week) || typeof week.weekStart !== 'number' || !isFinite(week.weekStart) ||
+      !isValidPrice(week.min) || !isValidPrice(week.max) || !isValidPrice(week.average) ||
+      !Number.isInteger(week.count) || week.count < 1 || week.min > week.max) {
+    throw new Error(`Invalid weekly rollup ${index} for product ${productId}`);
+  }
+  return week as PriceRollup;
+}
+
+const ALERT_TYPES: AlertSettings['type'][] = ['both', 'decrease', 'increase'];
+
+// Missing fields are filled from the defaults; present ones must have the right type
+function isValidAlerts(alerts: unknown): boolean {
+  if (!isObject(alerts)) return false;
+  const optionalBoolean = (value: unknown) => value === undefined || typeof value === 'boolean';
+  return optionalBoolean(alerts.enabled) &&
+    optionalBoolean(alerts.belowAllTimeLow) &&
+    optionalBoolean(alerts.notifyBackInStock) &&
+    (alerts.threshold === undefined || isValidPrice(alerts.threshold)) &&
+    (alerts.type === undefined || ALERT_TYPES.includes(alerts.type)) &&
+    (alerts.targetPrice === undefined || alerts.targetPrice === null ||
+      (isValidPrice(alerts.targetPrice) && alerts.targetPrice > 0));
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function validateProduct(product: unknown, productId: string): Product {
+  if (!isObject(product)) {
+    throw new Error(`Invalid product ${productId}`);
+  }
+  if (product.id !== productId) {
+    throw new Error(`Product ${productId} has mismatched id`);
+  }
+  if (typeof product.url !== 'string' || product.url === '') {
+    throw new Error(`Product ${productId} is missing a url`);
+  }
+  if (typeof product.title !== 'string') {
+    throw new Error(`Product ${productId} is missing a title`);
+  }
+  if (!isValidPrice(product.price)) {
+    throw new Error(`Product ${productId} has an invalid price`);
+  }
+  if (!isTimestamp(product.createdAt) || !isTimestamp(product.updatedAt)) {
+    throw new Error(`Product ${productId} has invalid timestamps`);
+  }
+  if (product.alerts !== undefined && !isValidAlerts(product.alerts)) {
+    throw new Error(`Product ${productId} has invalid alert settings`);
+  }
+  if (product.variants !== undefined) {
+    if (!isObject(product.variants)) {
+      throw new Error(`Product ${productId} has invalid variants`);
+    }
+    for (const [variantId, variant] of Object.entries(product.variants)) {
+      if (!isObject(variant) || variant.id !== variantId || typeof variant.label !== 'string' ||
+          !isValidPrice(variant.price) || typeof variant.tracked !== 'boolean' ||
+          (variant.alerts !== undefined && !isValidAlerts(variant.alerts))) {
+        throw new Error(`Product ${productId} has an invalid variant ${variantId}`);
+      }
+    }
+  }
+
+  return {
+    ...product,
+    alerts: { ...DEFAULT_ALERT_SETTINGS, ...product.alerts }
+  } as Product;
+}
+
+export function validateImportData(data: unknown): ExportData {
+  if (!isObject(data) || !data.version || !isObject(data.products)) {
+    throw new Error('Invalid import format');
+  }
+  if ((data.priceHistory !== undefined && !isObject(data.priceHistory)) ||
+      (data.priceRollups !== undefined && !isObject(data.priceRollups))) {
+    throw new Error('Invalid import format');
+  }
+
+  // Older exports are brought up to the current shape before validation
+  const migrated = runMigrations(
+    { products: data.products, priceHistory: data.priceHistory || {}, priceRollups: data.priceRollups || {} },
+    data.schemaVersion ?? LEGACY_SCHEMA_VERSION
+  ).data;
+
+  const products: Record<string, Product> = {};
+  const priceHistory: Record<string, PricePoint[]> = {};
+  const priceRollups: Record<string, PriceRollup[]> = {};
+
+  for (const [productId, product] of Object.entries(migrated.products)) {
+    products[productId] = validateProduct(product, productId);
+
+    // Variant histories are keyed productId#variantId alongside the product's
+    for (const key of getHistoryKeys(products[productId])) {
+      const history = migrated.priceHistory[key] ?? [];
+      if (!Array.isArray(history)) {
+        throw new Error(`Invalid price history for product ${key}`);
+      }
+      priceHistory[key] = history.map((point, index) => validatePricePoint(point, key, index));
+
+      const rollups = migrated.priceRollups?.[key] ?? [];
+      if (!Array.isArray(rollups)) {
+        throw new Error(`Invalid weekly rollups for product ${key}`);
+      }
+      priceRollups[key] = rollups.map((week, index) => validateRollup(week, key, index));
+    }
+  }
+
+  return {
+    version: String(data.version),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportDate: typeof data.exportDate === 'string' ? data.exportDate : '',
+    products,
+    priceHistory,
+    priceRollups
+  };
+}
+
+export function mergePriceHistories(local: PricePoint[], incoming: PricePoint[]): PricePoint[] {
+  // Points are identified by timestamp; the local copy wins a tie
+  const byTimestamp = new Map<number, PricePoint>();
+  for (const point of [...incoming, ...local]) {
+    byTimestamp.set(point.timestamp, point);
+  }
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function mergeRollups(local: PriceRollup[], incoming: PriceRollup[]): PriceRollup[] {
+  // Weeks are identified by their start; the local copy wins a tie
+  const byWeek = new Map<number, PriceRollup>();
+  for (const week of [...incoming, ...local]) {
+    byWeek.set(week.weekStart, week);
+  }
+  return [...byWeek.values()].sort((a, b) => a.weekStart - b.weekStart);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hasConflict(local: Product, incoming: Product): boolean {
+  const strip = (record: Record<string, any>) => {
+    const copy: Record<string, any> = { ...record };
+    for (const field of VOLATILE_FIELDS) delete copy[field];
+    return copy;
+  };
+  const stripProduct = (product: Product) => {
+    const copy = strip(product);
+    if (product.variants) {
+      copy.variants = Object.fromEntries(
+        Object.entries(product.variants).map(([variantId, variant]) => [variantId, strip(variant)])
+      );
+    }
+    return copy;
+  };
+  return stableStringify(stripProduct(local)) !== stableStringify(stripProduct(incoming));
+}
+
+// Merges every history a product owns, its own and its variants', into the
+// plan; reports whether any of them gained points or weeks
+function mergeProductHistories(
+  plan: Pick<ImportPlan, 'priceHistory' | 'priceRollups'>,
+  local: StoredData | null,
+  incoming: ExportData,
+  keys: string[]
+): boolean {
+  let grew = false;
+  for (const key of new Set(keys)) {
+    const localHistory = local?.priceHistory[key] || [];
+    const localRollups = local?.priceRollups?.[key] || [];
+    plan.priceHistory[key] = mergePriceHistories(localHistory, incoming.priceHistory[key] || []);
+    plan.priceRollups[key] = mergeRollups(localRollups, incoming.priceRollups?.[key] || []);
+    grew = grew || plan.priceHistory[key].length > localHistory.length ||
+      plan.priceRollups[key].length > localRollups.length;
+  }
+  return grew;
+}
+
+// The newer record wins field by field; alert settings and variants the
+// file doesn't carry, as with CSV exports, stay as they are locally
+export function mergeProductRecords(local: Product, incoming: Product): Product {
+  const variants = { ...local.variants };
+  for (const [variantId, variant] of Object.entries(incoming.variants || {})) {
+    variants[variantId] = { ...local.variants?.[variantId], ...variant };
+  }
+
+  return {
+    ...local,
+    ...incoming,
+    alerts: { ...local.alerts, ...incoming.alerts },
+    ...(Object.keys(variants).length > 0 ? { variants } : {})
+  };
+}
+
+export function planImport(current: StoredData, incoming: ExportData, mode: ImportMode): ImportPlan {
+  const replacing = mode === 'replace';
+  const products: Record<string, Product> = replacing ? {} : { ...current.products };
+  const priceHistory: Record<string, PricePoint[]> = replacing ? {} : { ...current.priceHistory };
+  const priceRollups: Record<string, PriceRollup[]> = replacing ? {} : { ...current.priceRollups };
+  const preview: ImportPreview = {
+    mode,
+    newCount: 0,
+    updatedCount: 0,
+    conflictCount: 0,
+    unchangedCount: 0,
+    removedCount: 0
+  };
+  let appliedCount = 0;
+
+  const plan = { priceHistory, priceRollups };
+
+  for (const [productId, product] of Object.entries(incoming.products)) {
+    const local = current.products[productId];
+
+    if (!local) {
+      products[productId] = product;
+      mergeProductHistories(plan, null, incoming, getHistoryKeys(product));
+      preview.newCount++;
+      appliedCount++;
+      continue;
+    }
+
+    const conflicting = hasConflict(local, product);
+
+    if (replacing) {
+      products[productId] = product;
+      mergeProductHistories(plan, null, incoming, getHistoryKeys(product));
+      // Weekly summaries can't be rebuilt once their points are pruned, so a
+      // file without them (e.g. an older CSV export) leaves the local ones alone
+      for (const key of getHistoryKeys(product)) {
+        if (plan.priceRollups[key].length === 0) {
+          plan.priceRollups[key] = current.priceRollups?.[key] || [];
+        }
+      }
+      preview.updatedCount++;
+      appliedCount++;
+      continue;
+    }
+
+    if (mode === 'addOnly') {
+      // Existing products are left exactly as they are
+      if (conflicting) {
+        preview.conflictCount++;
+      } else {
+        preview.unchangedCount++;
+      }
+      continue;
+    }
+
+    const grew = mergeProductHistories(plan, current, incoming, [...getHistoryKeys(local), ...getHistoryKeys(product)]);
+
+    if (conflicting) {
+      // The most recently updated record wins; local keeps ties
+      if ((product.updatedAt || 0) > (local.updatedAt || 0)) {
+        products[productId] = mergeProductRecords(local, product);
+      }
+      preview.conflictCount++;
+      appliedCount++;
+    } else if (grew) {
+      preview.updatedCount++;
+      appliedCount++;
+    } else {
+      preview.unchangedCount++;
+    }
+  }
+
+  if (replacing) {
+    preview.removedCount = Object.keys(current.products)
+      .filter(productId => !incoming.products[productId]).length;
+  }
+
+  return { preview, appliedCount, products, priceHistory, priceRollups };
+}
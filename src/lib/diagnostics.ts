@@ -0,0 +1,160 @@
+import {
+  RULE_FIELDS,
+  getSiteAdapter,
+  readStructuredData,
+  resolveFieldSources,
+  testRules,
+  type FieldSource,
+  type FieldSources,
+  type RuleField,
+  type RuleTestReport,
+  type SiteAdapter,
+  type SiteId
+} from './sites/index.js';
+
+// How init found the product: on load, after retrying, once the DOM changed,
+// or not at all; debug shows the button on pages that aren't products, and
+// replay reads a stored page snapshot
+export type DetectionMethod = 'immediate' | 'retry' | 'mutation' | 'debug' | 'none' | 'replay';
+
+// 'fallback' is a value no listed selector produced, e.g. a seller taken from
+// the URL or stock read from the cart buttons
+export type DiagnosticSource = FieldSource | 'fallback';
+
+export interface FieldDiagnostic {
+  source: DiagnosticSource | null;
+  selector: string | null;
+  rawText: string | null;
+  value: string | number | null;
+}
+
+export interface ExtractionReport {
+  url: string;
+  siteId: SiteId | null;
+  timestamp: number;
+  detection: DetectionMethod;
+  fields: Record<RuleField, FieldDiagnostic>;
+  confidence: number;
+  success: boolean;
+}
+
+export interface ExtractionInput {
+  url: string;
+  siteId: SiteId | null;
+  detection: DetectionMethod;
+  values: Record<RuleField, string | number | null>;
+  sources: FieldSources;
+  matches: RuleTestReport | null;
+  timestamp?: number;
+}
+
+export interface SiteHealth {
+  siteId: SiteId | null;
+  pages: number;
+  failures: number;
+  failureRate: number;
+  averageConfidence: number;
+  lastFailureAt: number | null;
+}
+
+export const DIAGNOSTICS_KEY = 'extractionDiagnostics';
+export const MAX_DIAGNOSTIC_REPORTS = 50;
+
+// Price matters most; seller is nice to have
+const FIELD_WEIGHTS: Record<RuleField, number> = { title: 0.3, price: 0.4, availability: 0.15, seller: 0.15 };
+const SOURCE_SCORES: Record<DiagnosticSource, number> = { 'json-ld': 1, microdata: 1, selector: 0.8, fallback: 0.5 };
+
+function diagnoseField(input: ExtractionInput, field: RuleField): FieldDiagnostic {
+  const value = input.values[field] === 'unknown' ? null : input.values[field];
+  if (value === null || value === undefined) {
+    return { source: null, selector: null, rawText: null, value: null };
+  }
+
+  const structured = field !== 'seller' ? input.sources[field] : undefined;
+  if (structured && structured !== 'selector') {
+    return { source: structured, selector: null, rawText: null, value };
+  }
+
+  const match = input.matches?.[field].find(candidate => candidate.text !== null);
+  return match
+    ? { source: 'selector', selector: match.selector, rawText: match.text, value }
+    : { source: 'fallback', selector: null, rawText: null, value };
+}
+
+export function getConfidence(fields: Record<RuleField, FieldDiagnostic>): number {
+  const score = RULE_FIELDS.reduce((total, field) => {
+    const source = fields[field].source;
+    return total + (source ? FIELD_WEIGHTS[field] * SOURCE_SCORES[source] : 0);
+  }, 0);
+  return Math.round(score * 100) / 100;
+}
+
+// The same test that turns the on-page button red
+export function createExtractionReport(input: ExtractionInput): ExtractionReport {
+  const fields = Object.fromEntries(RULE_FIELDS.map(field => [field, diagnoseField(input, field)])) as Record<RuleField, FieldDiagnostic>;
+  const price = fields.price.value;
+
+  return {
+    url: input.url,
+    siteId: input.siteId,
+    timestamp: input.timestamp ?? Date.now(),
+    detection: input.detection,
+    fields,
+    confidence: getConfidence(fields),
+    success: !!fields.title.value && typeof price === 'number' && price > 0
+  };
+}
+
+// Reads the page the way the extractor does: structured data first, then the adapter's selectors
+export function diagnosePage(doc: Document, url: string, adapter: SiteAdapter, detection: DetectionMethod): ExtractionReport {
+  const { hostname, pathname } = new URL(url);
+  const structured = readStructuredData(doc);
+  const title = structured.product.title ?? adapter.getTitle(doc);
+  const price = structured.product.price ?? adapter.getPrice(doc);
+  const availability = structured.product.availability ?? adapter.getAvailability(doc);
+  const parts = adapter.parseProductUrl(`https://${hostname}${pathname}`);
+
+  return createExtractionReport({
+    // Query strings carry tracking parameters, not product identity
+    url: `https://${hostname}${pathname}`,
+    siteId: getSiteAdapter(url)?.id ?? null,
+    detection,
+    values: { title, price, availability, seller: adapter.getSeller(doc, parts) },
+    sources: resolveFieldSources(structured.sources, { title, price, availability }),
+    matches: testRules(doc, adapter.rules)
+  });
+}
+
+export function summarizeBySite(reports: ExtractionReport[]): SiteHealth[] {
+  const bySite = new Map<SiteId | null, ExtractionReport[]>();
+  for (const report of reports) {
+    bySite.set(report.siteId, [...(bySite.get(report.siteId) || []), report]);
+  }
+
+  return [...bySite.entries()].map(([siteId, siteReports]) => {
+    const failures = siteReports.filter(report => !report.success);
+    return {
+      siteId,
+      pages: siteReports.length,
+      failures: failures.length,
+      failureRate: failures.length / siteReports.length,
+      averageConfidence: siteReports.reduce((sum, report) => sum + report.confidence, 0) / siteReports.length,
+      lastFailureAt: failures.length > 0 ? Math.max(...failures.map(report => report.timestamp)) : null
+    };
+  });
+}
+
+// Newest first
+export async function getExtractionReports(): Promise<ExtractionReport[]> {
+  const result = await chrome.storage.local.get(DIAGNOSTICS_KEY);
+  return result?.[DIAGNOSTICS_KEY] || [];
+}
+
+export async function saveExtractionReport(report: ExtractionReport): Promise<void> {
+  const reports = await getExtractionReports();
+  await chrome.storage.local.set({ [DIAGNOSTICS_KEY]: [report, ...reports].slice(0, MAX_DIAGNOSTIC_REPORTS) });
+}
+
+export async function clearExtractionReports(): Promise<void> {
+  await chrome.storage.local.remove(DIAGNOSTICS_KEY);
+}
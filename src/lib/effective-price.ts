@@ -0,0 +1,57 @@
+import type { PriceExtras, PricePoint } from './storage-manager.js';
+
+// 'raw' is the listed price; 'effective' adds shipping and takes off the points earned
+export type PriceBasis = 'raw' | 'effective';
+
+export interface PricingOptions {
+  basis: PriceBasis;
+  // Percent of the price returned as points at 1倍, e.g. 1 for one point per ¥100
+  basePointRate: number;
+}
+
+export const PRICE_BASES: PriceBasis[] = ['raw', 'effective'];
+
+export const DEFAULT_BASE_POINT_RATE = 1;
+
+// Keeps only the extras that were actually found on the page
+export function pickPriceExtras(source: PriceExtras): PriceExtras {
+  const extras: PriceExtras = {};
+  if (typeof source.pointMultiplier === 'number') extras.pointMultiplier = source.pointMultiplier;
+  if (typeof source.shippingCost === 'number') extras.shippingCost = source.shippingCost;
+  if (typeof source.campaign === 'string' && source.campaign) extras.campaign = source.campaign;
+  return extras;
+}
+
+// Whether anything that changes the effective price is known
+export function hasPriceExtras(source: PriceExtras): boolean {
+  return typeof source.pointMultiplier === 'number' || typeof source.shippingCost === 'number';
+}
+
+// An extra missing from the observation isn't counted as a change
+export function haveExtrasChanged(previous: PriceExtras, extras: PriceExtras): boolean {
+  const observed = pickPriceExtras(extras);
+  return (Object.keys(observed) as (keyof PriceExtras)[]).some(key => previous[key] !== observed[key]);
+}
+
+export function getPointsEarned(price: number, pointMultiplier: number, basePointRate: number): number {
+  return Math.floor(price * (basePointRate / 100) * pointMultiplier);
+}
+
+// Unknown shipping adds nothing and an unknown multiplier earns no points
+export function getEffectivePrice(price: number, extras: PriceExtras, basePointRate: number): number {
+  const points = extras.pointMultiplier !== undefined
+    ? getPointsEarned(price, extras.pointMultiplier, basePointRate)
+    : 0;
+  return price + (extras.shippingCost ?? 0) - points;
+}
+
+export function toPriceBasis<T extends PricePoint>(point: T, pricing: PricingOptions): T {
+  if (pricing.basis === 'raw') return point;
+  return { ...point, price: getEffectivePrice(point.price, point, pricing.basePointRate) };
+}
+
+// Weekly rollups only keep raw prices, so the effective series leaves rolled-up weeks out
+export function seriesToPriceBasis<T extends PricePoint & { rolledUp?: boolean }>(series: T[], pricing: PricingOptions): T[] {
+  if (pricing.basis === 'raw') return series;
+  return series.filter(point => !point.rolledUp).map(point => toPriceBasis(point, pricing));
+}
@@ -253,6 +253,43 @@ export function formatDate(timestamp: number, language?: SupportedLanguage): str
   }
 }
 
+/**
+ * Format a date without time for compact displays such as chart axes
+ */
+export function formatShortDate(timestamp: number, language?: SupportedLanguage): string {
+  const lang = language || 'ja';
+  const locales: Record<SupportedLanguage, string> = { ja: 'ja-JP', zh_TW: 'zh-TW', en: 'en-US' };
+  
+  try {
+    return new Intl.DateTimeFormat(locales[lang] || 'ja-JP', {
+      month: 'numeric',
+      day: 'numeric'
+    }).format(new Date(timestamp));
+  } catch (error) {
+    console.warn('i18n: Failed to format short date, using fallback:', error);
+    return new Date(timestamp).toLocaleDateString();
+  }
+}
+
+/**
+ * Format a calendar date without time, such as the day of an all-time low
+ */
+export function formatDay(timestamp: number, language?: SupportedLanguage): string {
+  const lang = language || 'ja';
+  const locales: Record<SupportedLanguage, string> = { ja: 'ja-JP', zh_TW: 'zh-TW', en: 'en-US' };
+  
+  try {
+    return new Intl.DateTimeFormat(locales[lang] || 'ja-JP', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    }).format(new Date(timestamp));
+  } catch (error) {
+    console.warn('i18n: Failed to format day, using fallback:', error);
+    return new Date(timestamp).toLocaleDateString();
+  }
+}
+
 /**
  * Get availability status message
  */
@@ -0,0 +1,199 @@
+import type {
+  AddProductResult,
+  AlertSettings,
+  ExportData,
+  PriceExtras,
+  PricePoint,
+  Product,
+  ProductData,
+  ProductUpdates,
+  VariantUpdates
+} from './storage-manager.js';
+import { IMPORT_MODES, type ImportMode, type ImportPreview } from './data-import.js';
+import type { SeriesPoint } from './price-history.js';
+import type { PriceStats, ProductOverview } from './price-stats.js';
+import type { VariantSelection } from './variants.js';
+import type { ExtractionReport } from './diagnostics.js';
+import type { PageSnapshot } from './snapshots.js';
+import type { ExtractionRules, RuleTestReport } from './sites/index.js';
+
+// Bumped whenever a message changes shape. Content scripts keep running the old
+// code after an update, so their messages are turned away with a clear error
+export const PROTOCOL_VERSION = 1;
+export const PROTOCOL_MISMATCH_ERROR = 'The extension was updated. Reload this page to keep tracking prices.';
+
+// Sent to the background by the popup, the options page and content scripts
+export type BackgroundRequest =
+  | { action: 'TRACK_PRODUCT'; data: ProductData }
+  | { action: 'GET_PRODUCTS' }
+  | { action: 'UPDATE_PRODUCT'; productId: string; updates: Pick<ProductUpdates, 'alerts'> }
+  | { action: 'UPDATE_VARIANT'; productId: string; variantId: string; updates: VariantUpdates }
+  | { action: 'DELETE_PRODUCT'; productId: string }
+  | { action: 'GET_PRICE_HISTORY'; productId: string }
+  | { action: 'GET_PRICE_SERIES'; productId: string }
+  | { action: 'GET_PRICE_STATS'; productId?: string }
+  | { action: 'GET_PRODUCT_OVERVIEW'; productId: string }
+  | { action: 'EXPORT_DATA' }
+  | { action: 'PREVIEW_IMPORT'; data: string; mode?: ImportMode }
+  | { action: 'IMPORT_DATA'; data: string; mode?: ImportMode }
+  | { action: 'RESET_DATA' }
+  | {
+      action: 'CHECK_AND_STORE_PRICE';
+      productId: string;
+      price: number;
+      availability?: string;
+      variant?: VariantSelection;
+      extras?: PriceExtras;
+    }
+  | { action: 'RECORD_EXTRACTION'; report: ExtractionReport }
+  | { action: 'SAVE_SNAPSHOT'; snapshot: PageSnapshot };
+
+export type BackgroundAction = BackgroundRequest['action'];
+
+// What each action answers with alongside success: true
+export interface BackgroundResults {
+  TRACK_PRODUCT: { data: AddProductResult };
+  GET_PRODUCTS: { data: Record<string, Product> };
+  UPDATE_PRODUCT: { data: Product };
+  UPDATE_VARIANT: { data: Product };
+  DELETE_PRODUCT: {};
+  GET_PRICE_HISTORY: { data: PricePoint[] };
+  GET_PRICE_SERIES: { data: SeriesPoint[] };
+  GET_PRICE_STATS: { data: PriceStats | null | Record<string, PriceStats | null> };
+  GET_PRODUCT_OVERVIEW: { data: ProductOverview | null };
+  EXPORT_DATA: { data: ExportData };
+  PREVIEW_IMPORT: { count: number; preview: ImportPreview };
+  IMPORT_DATA: { count: number; preview: ImportPreview };
+  RESET_DATA: {};
+  CHECK_AND_STORE_PRICE: { priceAdded: boolean };
+  RECORD_EXTRACTION: {};
+  SAVE_SNAPSHOT: {};
+}
+
+// Sent to a tab's content script by the options page and the background
+export type ContentRequest =
+  | { action: 'TEST_RULES'; rules: ExtractionRules }
+  | { action: 'URL_CHANGED'; url: string };
+
+export type ContentAction = ContentRequest['action'];
+
+export interface ContentResults {
+  TEST_RULES: { data: RuleTestReport };
+  URL_CHANGED: {};
+}
+
+export interface MessageFailure {
+  success: false;
+  error: string;
+}
+
+export type BackgroundResponse<A extends BackgroundAction> = ({ success: true } & BackgroundResults[A]) | MessageFailure;
+export type ContentResponse<A extends ContentAction> = ({ success: true } & ContentResults[A]) | MessageFailure;
+
+type Versioned<T> = T & { protocol: number };
+type FieldCheck = [field: string, check: (value: unknown) => boolean];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isId = (value: unknown) => typeof value === 'string' && value.length > 0;
+const isText = (value: unknown) => typeof value === 'string';
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isPrice = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isImportMode = (value: unknown) => IMPORT_MODES.includes(value as ImportMode);
+const isProductData = (value: unknown) => isObject(value) && isText(value.url) && isText(value.title) && isPrice(value.price);
+const isVariant = (value: unknown) => isObject(value) && isId(value.id) && isText(value.label);
+const isRules = (value: unknown) => isObject(value) &&
+  Object.entries(value).every(([key, field]) => key === 'priceInner' ? isObject(field) : Array.isArray(field));
+const optional = (check: (value: unknown) => boolean) => (value: unknown) => value === undefined || check(value);
+// Objects with no keys beyond the listed ones, each of the right type
+const hasOnly = (checks: Record<string, (value: unknown) => boolean>) => (value: unknown) =>
+  isObject(value) && Object.entries(value).every(([key, field]) =>
+    Object.prototype.hasOwnProperty.call(checks, key) && optional(checks[key])(field));
+
+const ALERT_TYPES: AlertSettings['type'][] = ['both', 'decrease', 'increase'];
+const isAlertUpdates = hasOnly({
+  enabled: isBoolean,
+  threshold: isPrice,
+  type: value => ALERT_TYPES.includes(value as AlertSettings['type']),
+  // Range checks are left to the handler, which names a bad target price
+  targetPrice: value => value === null || typeof value === 'number',
+  belowAllTimeLow: isBoolean,
+  notifyBackInStock: isBoolean
+});
+const isProductUpdates = hasOnly({ alerts: isAlertUpdates });
+const isVariantUpdates = hasOnly({ tracked: isBoolean, alerts: value => value === null || isAlertUpdates(value) });
+
+const BACKGROUND_FIELDS: Record<BackgroundAction, FieldCheck[]> = {
+  TRACK_PRODUCT: [['data', isProductData]],
+  GET_PRODUCTS: [],
+  UPDATE_PRODUCT: [['productId', isId], ['updates', isProductUpdates]],
+  UPDATE_VARIANT: [['productId', isId], ['variantId', isId], ['updates', isVariantUpdates]],
+  DELETE_PRODUCT: [['productId', isId]],
+  GET_PRICE_HISTORY: [['productId', isId]],
+  GET_PRICE_SERIES: [['productId', isId]],
+  GET_PRICE_STATS: [['productId', optional(isId)]],
+  GET_PRODUCT_OVERVIEW: [['productId', isId]],
+  EXPORT_DATA: [],
+  PREVIEW_IMPORT: [['data', isText], ['mode', optional(isImportMode)]],
+  IMPORT_DATA: [['data', isText], ['mode', optional(isImportMode)]],
+  RESET_DATA: [],
+  CHECK_AND_STORE_PRICE: [
+    ['productId', isId],
+    ['price', isPrice],
+    ['availability', optional(isText)],
+    ['variant', optional(isVariant)],
+    ['extras', optional(isObject)]
+  ],
+  RECORD_EXTRACTION: [['report', value => isObject(value) && isText(value.url) && isObject(value.fields)]],
+  SAVE_SNAPSHOT: [['snapshot', value => isObject(value) && isText(value.url) && isText(value.html)]]
+};
+
+const CONTENT_FIELDS: Record<ContentAction, FieldCheck[]> = {
+  TEST_RULES: [['rules', isRules]],
+  URL_CHANGED: [['url', isText]]
+};
+
+function validate<T>(message: unknown, fields: Record<string, FieldCheck[]>): T {
+  if (!isObject(message)) {
+    throw new Error('Malformed message');
+  }
+  if (message.protocol !== PROTOCOL_VERSION) {
+    throw new Error(PROTOCOL_MISMATCH_ERROR);
+  }
+  if (typeof message.action !== 'string' || !Object.prototype.hasOwnProperty.call(fields, message.action)) {
+    throw new Error('Unknown action');
+  }
+
+  const invalid = fields[message.action].find(([field, check]) => !check(message[field]));
+  if (invalid) {
+    throw new Error(`Invalid ${invalid[0]} for ${message.action}`);
+  }
+  return message as T;
+}
+
+export function validateBackgroundRequest(message: unknown): BackgroundRequest {
+  return validate<BackgroundRequest>(message, BACKGROUND_FIELDS);
+}
+
+export function validateContentRequest(message: unknown): ContentRequest {
+  return validate<ContentRequest>(message, CONTENT_FIELDS);
+}
+
+// A content script left behind by an update can no longer reach the extension at all
+function toProtocolError(error: unknown): unknown {
+  return error instanceof Error && /context invalidated/i.test(error.message)
+    ? new Error(PROTOCOL_MISMATCH_ERROR)
+    : error;
+}
+
+export async function sendMessage<R extends BackgroundRequest>(request: R): Promise<BackgroundResponse<R['action']>> {
+  try {
+    return await chrome.runtime.sendMessage<Versioned<R>>({ ...request, protocol: PROTOCOL_VERSION });
+  } catch (error) {
+    throw toProtocolError(error);
+  }
+}
+
+export async function sendTabMessage<R extends ContentRequest>(tabId: number, request: R): Promise<ContentResponse<R['action']>> {
+  return chrome.tabs.sendMessage<Versioned<R>>(tabId, { ...request, protocol: PROTOCOL_VERSION });
+}
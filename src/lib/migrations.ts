@@ -0,0 +1,154 @@
+import type { PricePoint, PriceRollup, Product } from './storage-manager.js';
+import { DEFAULT_ALERT_SETTINGS } from './settings.js';
+import { withHistorySummary } from './price-history.js';
+import { getVariantKey, parseHistoryKey } from './variants.js';
+
+export interface SchemaData {
+  products: Record<string, Product>;
+  priceHistory: Record<string, PricePoint[]>;
+  priceRollups?: Record<string, PriceRollup[]>;
+  // Per-product alert engine state, keyed like the price history
+  alertState?: Record<string, unknown>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: SchemaData) => SchemaData;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  data: SchemaData;
+}
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Data written before schema versions existed, including every export
+// without a schemaVersion field
+export const LEGACY_SCHEMA_VERSION = 1;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Ordered by version; each migration takes data at version - 1
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Complete alert settings and move price history into the standalone store',
+    migrate: ({ products, priceHistory }) => {
+      const nextProducts: Record<string, Product> = {};
+      const nextHistory: Record<string, PricePoint[]> = { ...priceHistory };
+
+      for (const [productId, product] of Object.entries(products)) {
+        if (!isObject(product)) {
+          nextProducts[productId] = product;
+          continue;
+        }
+
+        nextProducts[productId] = {
+          ...product,
+          alerts: { ...DEFAULT_ALERT_SETTINGS, ...(isObject(product.alerts) ? product.alerts : {}) }
+        };
+
+        // Early versions only kept the snapshot embedded in the product
+        const embedded = (product as Product & { priceHistory?: PricePoint[] }).priceHistory;
+        const history = Array.isArray(nextHistory[productId]) && nextHistory[productId].length > 0
+          ? nextHistory[productId]
+          : (Array.isArray(embedded) ? embedded : []);
+        nextHistory[productId] = [...history].sort((a, b) => (a?.timestamp ?? 0) - (b?.timestamp ?? 0));
+      }
+
+      return { products: nextProducts, priceHistory: nextHistory };
+    }
+  },
+  {
+    version: 3,
+    description: 'Drop the embedded price history in favour of a derived history summary',
+    migrate: ({ products, priceHistory }) => {
+      const nextProducts: Record<string, Product> = {};
+
+      for (const [productId, product] of Object.entries(products)) {
+        if (!isObject(product)) {
+          nextProducts[productId] = product;
+          continue;
+        }
+
+        const { priceHistory: _embedded, ...rest } = product as Product & { priceHistory?: unknown };
+        const history = Array.isArray(priceHistory[productId]) ? priceHistory[productId] : [];
+        nextProducts[productId] = withHistorySummary(rest, history.filter(isObject) as PricePoint[]);
+      }
+
+      return { products: nextProducts, priceHistory };
+    }
+  },
+  {
+    version: 4,
+    description: 'Namespace product ids by shopping site',
+    migrate: ({ products, priceHistory, priceRollups = {}, alertState }) => {
+      const nextProducts: Record<string, Product> = {};
+      const nextHistory: Record<string, PricePoint[]> = {};
+      const nextRollups: Record<string, PriceRollup[]> = {};
+      const nextAlertState: Record<string, unknown> = {};
+      const renamed: Record<string, string> = {};
+
+      for (const [productId, product] of Object.entries(products)) {
+        // Only Rakuten was supported before, with ids like shop_item
+        const isRakuten = isObject(product) && typeof product.url === 'string' &&
+          /item\.rakuten\.co\.jp\//.test(product.url);
+        const nextId = isRakuten && !productId.includes(':') ? `rakuten:${productId}` : productId;
+        renamed[productId] = nextId;
+        nextProducts[nextId] = isObject(product) && product.id === productId ? { ...product, id: nextId } : product;
+      }
+
+      // CSV imports run every migration, so variant keys (productId#variantId) follow their product
+      const rename = (key: string) => {
+        const { productId, variantId } = parseHistoryKey(key);
+        const nextId = renamed[productId] ?? productId;
+        return variantId === null ? nextId : getVariantKey(nextId, variantId);
+      };
+      for (const [key, history] of Object.entries(priceHistory)) {
+        nextHistory[rename(key)] = history;
+      }
+      for (const [key, rollups] of Object.entries(priceRollups)) {
+        nextRollups[rename(key)] = rollups;
+      }
+      // Armed targets and last notified prices must follow, or the first check alerts again
+      for (const [key, state] of Object.entries(alertState || {})) {
+        nextAlertState[rename(key)] = state;
+      }
+
+      return {
+        products: nextProducts,
+        priceHistory: nextHistory,
+        priceRollups: nextRollups,
+        ...(alertState ? { alertState: nextAlertState } : {})
+      };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.length > 0
+  ? MIGRATIONS[MIGRATIONS.length - 1].version
+  : LEGACY_SCHEMA_VERSION;
+
+export function runMigrations(data: SchemaData, fromVersion: number): MigrationResult {
+  if (!Number.isInteger(fromVersion) || fromVersion < LEGACY_SCHEMA_VERSION) {
+    throw new Error(`Unknown schema version ${fromVersion}`);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${fromVersion} is newer than this extension supports`);
+  }
+
+  let migrated = data;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      // Stores a migration does not touch pass through unchanged
+      migrated = { ...migrated, ...migration.migrate(migrated) };
+    }
+  }
+
+  return { from: fromVersion, to: CURRENT_SCHEMA_VERSION, data: migrated };
+}
@@ -0,0 +1,115 @@
+import type { HistorySummary, PricePoint, PriceRollup } from './storage-manager.js';
+
+// A point on a chartable series; rolled-up weeks carry their range
+export interface SeriesPoint extends PricePoint {
+  min?: number;
+  max?: number;
+  rolledUp?: boolean;
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+// The epoch fell on a Thursday; shift so weeks start on Monday (UTC)
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+export function getWeekStart(timestamp: number): number {
+  return Math.floor((timestamp - WEEK_OFFSET_MS) / WEEK_MS) * WEEK_MS + WEEK_OFFSET_MS;
+}
+
+export function partitionByRetention(
+  history: PricePoint[],
+  retentionDays: number,
+  now = Date.now()
+): { kept: PricePoint[]; expired: PricePoint[] } {
+  if (retentionDays <= 0) return { kept: history, expired: [] };
+
+  const cutoff = now - retentionDays * DAY_MS;
+  return {
+    kept: history.filter(point => point.timestamp > cutoff),
+    expired: history.filter(point => point.timestamp <= cutoff)
+  };
+}
+
+export function rollupPoints(points: PricePoint[]): PriceRollup[] {
+  const weeks = new Map<number, PriceRollup>();
+
+  for (const point of points) {
+    const weekStart = getWeekStart(point.timestamp);
+    const week = weeks.get(weekStart);
+    if (week) {
+      week.average = (week.average * week.count + point.price) / (week.count + 1);
+      week.min = Math.min(week.min, point.price);
+      week.max = Math.max(week.max, point.price);
+      week.count++;
+    } else {
+      weeks.set(weekStart, { weekStart, min: point.price, max: point.price, average: point.price, count: 1 });
+    }
+  }
+
+  return [...weeks.values()].sort((a, b) => a.weekStart - b.weekStart);
+}
+
+// Folds newly expired points into weeks that may already be rolled up
+export function combineRollups(existing: PriceRollup[], added: PriceRollup[]): PriceRollup[] {
+  const weeks = new Map(existing.map(week => [week.weekStart, { ...week }]));
+
+  for (const week of added) {
+    const current = weeks.get(week.weekStart);
+    if (current) {
+      const count = current.count + week.count;
+      current.average = (current.average * current.count + week.average * week.count) / count;
+      current.min = Math.min(current.min, week.min);
+      current.max = Math.max(current.max, week.max);
+      current.count = count;
+    } else {
+      weeks.set(week.weekStart, { ...week });
+    }
+  }
+
+  return [...weeks.values()].sort((a, b) => a.weekStart - b.weekStart);
+}
+
+export function toSeries(history: PricePoint[], rollups: PriceRollup[] = []): SeriesPoint[] {
+  const rolledUp: SeriesPoint[] = rollups.map(week => ({
+    price: Math.round(week.average),
+    timestamp: week.weekStart,
+    min: week.min,
+    max: week.max,
+    rolledUp: true
+  }));
+  return [...rolledUp, ...history].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function summarizeHistory(history: PricePoint[], rollups: PriceRollup[] = []): HistorySummary | undefined {
+  if (history.length === 0 && rollups.length === 0) return undefined;
+
+  const series = toSeries(history, rollups);
+  const latest = series[series.length - 1];
+  let lowest = Infinity;
+  let highest = -Infinity;
+  for (const point of series) {
+    lowest = Math.min(lowest, point.min ?? point.price);
+    highest = Math.max(highest, point.max ?? point.price);
+  }
+
+  return {
+    latestPrice: latest.price,
+    lowestPrice: lowest,
+    highestPrice: highest,
+    pointCount: history.length,
+    firstRecordedAt: series[0].timestamp,
+    lastRecordedAt: latest.timestamp
+  };
+}
+
+// Derived fields are recomputed from the history store, never edited directly
+export function withHistorySummary<T extends { historySummary?: HistorySummary }>(
+  item: T,
+  history: PricePoint[],
+  rollups: PriceRollup[] = []
+): T {
+  const { historySummary: _previous, ...rest } = item;
+  const historySummary = summarizeHistory(history, rollups);
+  return (historySummary ? { ...rest, historySummary } : rest) as T;
+}
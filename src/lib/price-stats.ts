@@ -0,0 +1,115 @@
+import type { Product } from './storage-manager.js';
+import { DAY_MS, type SeriesPoint } from './price-history.js';
+
+export interface PriceStats {
+  currentPrice: number;
+  allTimeLow: number;
+  allTimeLowAt: number;
+  allTimeHigh: number;
+  allTimeHighAt: number;
+  average30d: number | null;
+  average90d: number | null;
+  percentFromLow: number;
+  daysSinceLow: number;
+  // 100 at the all-time low, 0 at the all-time high
+  dealScore: number;
+}
+
+// A tracked product with its chartable history, as sent to the page overlay
+export interface ProductOverview {
+  product: Product;
+  series: SeriesPoint[];
+  stats: PriceStats | null;
+}
+
+export type ProductSort = 'added' | 'dealScore' | 'percentFromLow' | 'price' | 'title';
+
+export const PRODUCT_SORT_OPTIONS: { value: ProductSort; messageKey: string }[] = [
+  { value: 'added', messageKey: 'sortAdded' },
+  { value: 'dealScore', messageKey: 'sortDealScore' },
+  { value: 'percentFromLow', messageKey: 'sortPercentFromLow' },
+  { value: 'price', messageKey: 'sortPrice' },
+  { value: 'title', messageKey: 'sortTitle' }
+];
+
+// Each point's price holds until the next point, so a price seen for a week
+// counts for more than one seen for an hour
+export function timeWeightedAverage(series: SeriesPoint[], days: number, now = Date.now()): number | null {
+  const since = now - days * DAY_MS;
+  let weighted = 0;
+  let duration = 0;
+
+  for (let i = 0; i < series.length; i++) {
+    const start = Math.max(series[i].timestamp, since);
+    const end = Math.min(i + 1 < series.length ? series[i + 1].timestamp : now, now);
+    if (end <= start) continue;
+
+    weighted += series[i].price * (end - start);
+    duration += end - start;
+  }
+
+  return duration > 0 ? weighted / duration : null;
+}
+
+export function computePriceStats(history: SeriesPoint[], now = Date.now()): PriceStats | null {
+  if (history.length === 0) return null;
+
+  const series = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  const current = series[series.length - 1];
+
+  let low = Infinity;
+  let lowAt = 0;
+  let high = -Infinity;
+  let highAt = 0;
+  for (const point of series) {
+    const pointLow = point.min ?? point.price;
+    const pointHigh = point.max ?? point.price;
+    // Days since low counts from the most recent time the low was seen
+    if (pointLow <= low) {
+      low = pointLow;
+      lowAt = point.lastSeenAt ?? point.timestamp;
+    }
+    if (pointHigh > high) {
+      high = pointHigh;
+      highAt = point.timestamp;
+    }
+  }
+
+  const range = high - low;
+  return {
+    currentPrice: current.price,
+    allTimeLow: low,
+    allTimeLowAt: lowAt,
+    allTimeHigh: high,
+    allTimeHighAt: highAt,
+    average30d: timeWeightedAverage(series, 30, now),
+    average90d: timeWeightedAverage(series, 90, now),
+    percentFromLow: low > 0 ? ((current.price - low) / low) * 100 : 0,
+    daysSinceLow: current.price <= low ? 0 : Math.max(0, Math.floor((now - lowAt) / DAY_MS)),
+    // A price that has never moved is neither a good nor a bad deal
+    dealScore: range > 0 ? Math.round(((high - current.price) / range) * 100) : 50
+  };
+}
+
+export function sortProducts(
+  products: Product[],
+  stats: Record<string, PriceStats | null>,
+  sort: ProductSort
+): Product[] {
+  const sorted = [...products];
+
+  switch (sort) {
+    case 'dealScore':
+      // Products without history sort last
+      return sorted.sort((a, b) => (stats[b.id]?.dealScore ?? -1) - (stats[a.id]?.dealScore ?? -1));
+    case 'percentFromLow':
+      return sorted.sort((a, b) =>
+        (stats[a.id]?.percentFromLow ?? Infinity) - (stats[b.id]?.percentFromLow ?? Infinity));
+    case 'price':
+      return sorted.sort((a, b) => a.price - b.price);
+    case 'title':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title));
+    default:
+      return sorted.sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
@@ -0,0 +1,86 @@
+import type { AlertSettings } from './storage-manager.js';
+import { DEFAULT_BASE_POINT_RATE, type PriceBasis, type PricingOptions } from './effective-price.js';
+
+// 'change' records every observed price or stock change; 'daily' keeps one snapshot a day
+export type RecordingPolicy = 'change' | 'daily';
+
+export interface ExtensionSettings {
+  trackingEnabled: boolean;
+  autoTrack: boolean;
+  debugMode: boolean;
+  priceCheckInterval: number;
+  defaultAlerts: AlertSettings;
+  historyRetentionDays: number;
+  recordingPolicy: RecordingPolicy;
+  priceBasis: PriceBasis;
+  basePointRate: number;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  enabled: false,
+  threshold: 0.1, // 10% change
+  type: 'both'
+};
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  trackingEnabled: true,
+  autoTrack: true,
+  debugMode: false,
+  priceCheckInterval: 720,
+  defaultAlerts: DEFAULT_ALERT_SETTINGS,
+  historyRetentionDays: 365,
+  recordingPolicy: 'change',
+  priceBasis: 'raw',
+  basePointRate: DEFAULT_BASE_POINT_RATE
+};
+
+export const CHECK_INTERVAL_OPTIONS = [
+  { minutes: 0, messageKey: 'checkIntervalOff' },
+  { minutes: 180, messageKey: 'checkIntervalHours', hours: 3 },
+  { minutes: 360, messageKey: 'checkIntervalHours', hours: 6 },
+  { minutes: 720, messageKey: 'checkIntervalHours', hours: 12 },
+  { minutes: 1440, messageKey: 'checkIntervalHours', hours: 24 }
+];
+
+// 0 keeps history forever
+export const RETENTION_OPTIONS = [90, 180, 365, 730, 0];
+
+export const RECORDING_POLICIES: RecordingPolicy[] = ['change', 'daily'];
+
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as (keyof ExtensionSettings)[];
+
+export async function getSettings(): Promise<ExtensionSettings> {
+  const stored = (await chrome.storage.sync.get(SETTING_KEYS)) || {};
+
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    defaultAlerts: { ...DEFAULT_ALERT_SETTINGS, ...stored.defaultAlerts }
+  };
+}
+
+export async function updateSettings(updates: Partial<ExtensionSettings>): Promise<void> {
+  await chrome.storage.sync.set(updates);
+}
+
+export async function getDefaultAlertSettings(): Promise<AlertSettings> {
+  const settings = await getSettings();
+  return { ...settings.defaultAlerts };
+}
+
+export async function getRetentionDays(): Promise<number> {
+  const settings = await getSettings();
+  return settings.historyRetentionDays;
+}
+
+
+export async function getRecordingPolicy(): Promise<RecordingPolicy> {
+  const settings = await getSettings();
+  return settings.recordingPolicy;
+}
+
+// Which price charts, stats and alerts work from
+export async function getPricingOptions(): Promise<PricingOptions> {
+  const settings = await getSettings();
+  return { basis: settings.priceBasis, basePointRate: settings.basePointRate };
+}
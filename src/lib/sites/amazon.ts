@@ -0,0 +1,110 @@
+import {
+  findMetaContent,
+  getPageTitle,
+  matchText,
+  parsePriceText,
+  parseSchemaAvailability,
+  queryText,
+  type PageObservation,
+  type ProductUrlParts,
+  type SiteAdapter
+} from './site-adapter.js';
+
+const TITLE_SELECTORS = ['#productTitle', '#title', 'meta[name="title"]'];
+
+// The buy box price; list prices and per-unit prices sit outside these
+const PRICE_SELECTORS = [
+  '#corePrice_feature_div .a-price .a-offscreen',
+  '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
+  '#apex_desktop .a-price .a-offscreen',
+  '#priceblock_dealprice',
+  '#priceblock_ourprice',
+  '#price_inside_buybox',
+  '#kindle-price'
+];
+
+const SELLER_SELECTORS = ['#sellerProfileTriggerId', '#merchant-info a', '#bylineInfo'];
+
+const OUT_OF_STOCK_PATTERNS = ['在庫切れ', '現在お取り扱いできません', 'Currently unavailable'];
+const BACKORDER_PATTERNS = ['お取り寄せ', '入荷予定', '予約', 'Temporarily out of stock'];
+const AVAILABLE_PATTERNS = ['在庫あり', '残り', 'In Stock'];
+
+function classifyStockText(text: string): string {
+  // "一時的に在庫切れ" promises a restock, so check backorder wording first
+  if (text.includes('一時的に在庫切れ') || BACKORDER_PATTERNS.some(pattern => text.includes(pattern))) {
+    return 'backorder';
+  }
+  if (OUT_OF_STOCK_PATTERNS.some(pattern => text.includes(pattern))) return 'out_of_stock';
+  if (AVAILABLE_PATTERNS.some(pattern => text.includes(pattern))) return 'available';
+  return 'unknown';
+}
+
+function parsePrice(html: string): number | null {
+  const text = matchText(html, [
+    /id=["']corePrice(?:Display_desktop)?_feature_div["'][\s\S]*?class=["']a-offscreen["'][^>]*>([\s\S]*?)<\//i,
+    /id=["']priceblock_(?:deal|our)price["'][^>]*>([\s\S]*?)<\//i,
+    /id=["']price_inside_buybox["'][^>]*>([\s\S]*?)<\//i
+  ]) || findMetaContent(html, 'itemprop', 'price');
+  return text ? parsePriceText(text) : null;
+}
+
+function parseAvailability(html: string): string {
+  const text = matchText(html, [/<div[^>]*id=["']availability["'][^>]*>([\s\S]*?)<\/div>/i]);
+  if (text) {
+    const availability = classifyStockText(text);
+    if (availability !== 'unknown') return availability;
+  }
+  return parseSchemaAvailability(html)
+    || (/id=["']add-to-cart-button["']/.test(html) ? 'available' : 'unknown');
+}
+
+export const amazonAdapter: SiteAdapter = {
+  id: 'amazon',
+  name: 'Amazon.co.jp',
+  matchPatterns: ['https://www.amazon.co.jp/*'],
+
+  matchesHost(hostname: string): boolean {
+    return hostname === 'www.amazon.co.jp' || hostname === 'amazon.co.jp';
+  },
+
+  // Products are identified by ASIN whatever slug precedes /dp/
+  parseProductUrl(url: string): ProductUrlParts | null {
+    const matches = url.match(/amazon\.co\.jp\/(?:[^?#]*\/)?(?:dp|gp\/product|gp\/aw\/d)\/([A-Z0-9]{10})(?:[\/?#]|$)/i);
+    return matches ? { shopId: '', itemCode: matches[1].toUpperCase() } : null;
+  },
+
+  rules: {
+    title: TITLE_SELECTORS,
+    price: PRICE_SELECTORS,
+    availability: ['#availability'],
+    seller: SELLER_SELECTORS
+  },
+
+  getTitle(doc: Document): string | null {
+    return queryText(doc, TITLE_SELECTORS);
+  },
+
+  getPrice(doc: Document): number | null {
+    const text = queryText(doc, PRICE_SELECTORS);
+    return text ? parsePriceText(text) : null;
+  },
+
+  getAvailability(doc: Document): string {
+    const text = queryText(doc, ['#availability']);
+    const availability = text ? classifyStockText(text) : 'unknown';
+    if (availability !== 'unknown') return availability;
+    return doc.querySelector('#add-to-cart-button:not([disabled])') ? 'available' : 'unknown';
+  },
+
+  getSeller(doc: Document): string | null {
+    return queryText(doc, SELLER_SELECTORS);
+  },
+
+  parsePage(html: string): PageObservation {
+    return {
+      title: matchText(html, [/<span[^>]*id=["']productTitle["'][^>]*>([\s\S]*?)<\/span>/i]) || getPageTitle(html),
+      price: parsePrice(html),
+      availability: parseAvailability(html)
+    };
+  }
+};
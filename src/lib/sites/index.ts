@@ -0,0 +1,62 @@
+import { amazonAdapter } from './amazon.js';
+import { rakutenAdapter } from './rakuten.js';
+import { rakutenBooksAdapter } from './rakuten-books.js';
+import { rakutenFashionAdapter } from './rakuten-fashion.js';
+import { yahooShoppingAdapter } from './yahoo.js';
+import { PRODUCT_ID_SEPARATOR, getProductKey, type SiteAdapter, type SiteId } from './site-adapter.js';
+
+export * from './site-adapter.js';
+export * from './structured-data.js';
+export * from './rule-packs.js';
+export { amazonAdapter, rakutenAdapter, rakutenBooksAdapter, rakutenFashionAdapter, yahooShoppingAdapter };
+
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  rakutenAdapter,
+  rakutenBooksAdapter,
+  rakutenFashionAdapter,
+  amazonAdapter,
+  yahooShoppingAdapter
+];
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+export function getSiteAdapter(url: string): SiteAdapter | null {
+  const hostname = getHostname(url);
+  if (!hostname) return null;
+  return SITE_ADAPTERS.find(adapter => adapter.matchesHost(hostname)) || null;
+}
+
+export function getSiteAdapterById(siteId: string): SiteAdapter | null {
+  return SITE_ADAPTERS.find(adapter => adapter.id === siteId) || null;
+}
+
+// Ids are namespaced per site, e.g. rakuten:shop_item or amazon:B000000000
+export function getProductIdFromUrl(url: string): string | null {
+  const adapter = getSiteAdapter(url);
+  const parts = adapter?.parseProductUrl(url);
+  if (!adapter || !parts) return null;
+  return `${adapter.id}${PRODUCT_ID_SEPARATOR}${getProductKey(parts)}`;
+}
+
+// The id a product is tracked under, e.g. rakuten-books:9784000000001 when the
+// page showed a catalogue code and the URL-based id otherwise
+export function getProductId(url: string, productCode?: string | null): string | null {
+  const adapter = getSiteAdapter(url);
+  if (adapter?.getProductCode && productCode) {
+    return `${adapter.id}${PRODUCT_ID_SEPARATOR}${productCode}`;
+  }
+  return getProductIdFromUrl(url);
+}
+
+export function getSiteIdFromProductId(productId: string): SiteId | null {
+  const separator = productId.indexOf(PRODUCT_ID_SEPARATOR);
+  if (separator === -1) return null;
+  const adapter = getSiteAdapterById(productId.substring(0, separator));
+  return adapter ? adapter.id : null;
+}
@@ -0,0 +1,121 @@
+import {
+  findMetaContent,
+  getPageTitle,
+  matchText,
+  parsePriceText,
+  parseSchemaAvailability,
+  queryText,
+  stripTags,
+  type PageObservation,
+  type ProductUrlParts,
+  type SiteAdapter
+} from './site-adapter.js';
+
+const TITLE_SELECTORS = ['#productTitle h1', 'h1.productTitle', '.productTitle', 'meta[property="og:title"]'];
+
+const PRICE_SELECTORS = [
+  '#productDetailedPrice .price',
+  '.productPrice .price',
+  'span[itemprop="price"]',
+  'meta[itemprop="price"]'
+];
+
+const SELLER_SELECTORS = ['.productAuthor a', '.productAuthor'];
+
+const STATUS_SELECTORS = ['#productDetailedStatus', '.productStatus', '.status-heading'];
+
+// The spec table lists ISBN for books and JAN for CDs, DVDs and games
+const PRODUCT_CODE_LABEL = /ISBN|JAN/;
+const PRODUCT_CODE_PATTERN = /^(?:\d{8}|\d{10}|\d{12,13})$/;
+
+// Order buttons and stock wording; recommendation blocks elsewhere on the
+// page mention 品切れ or 予約 for other items
+const PURCHASE_BOX_PATTERN = /<(div|section|form)\b[^>]*(?:id|class)=["'][^"']*purchase[^"']*["'][^>]*>([\s\S]*?)<\/\1>/i;
+
+function classifyStatusText(text: string): string {
+  if (/(ご注文できない商品|品切れ|販売終了|絶版)/.test(text)) return 'out_of_stock';
+  if (/(予約受付中|お取り寄せ|入荷待ち)/.test(text)) return 'backorder';
+  if (/(ご注文できます|在庫あり|24時間以内に発送|翌日)/.test(text)) return 'available';
+  return 'unknown';
+}
+
+function parsePrice(html: string): number | null {
+  const text = findMetaContent(html, 'itemprop', 'price') || matchText(html, [
+    /id=["']productDetailedPrice["'][\s\S]*?class=["']price["'][^>]*>([\s\S]*?)<\//i,
+    /<[^>]*itemprop=["']price["'][^>]*>([\s\S]*?)<\//i
+  ]);
+  return text ? parsePriceText(text) : null;
+}
+
+function parseAvailability(html: string): string {
+  const schemaAvailability = parseSchemaAvailability(html);
+  if (schemaAvailability) return schemaAvailability;
+
+  const statusText = matchText(html, [/id=["']productDetailedStatus["'][^>]*>([\s\S]*?)<\/(?:div|p|span)>/i]);
+  const status = statusText ? classifyStatusText(statusText) : 'unknown';
+  if (status !== 'unknown') return status;
+
+  const purchaseBox = html.match(PURCHASE_BOX_PATTERN);
+  return purchaseBox ? classifyStatusText(stripTags(purchaseBox[2])) : 'unknown';
+}
+
+export const rakutenBooksAdapter: SiteAdapter = {
+  id: 'rakuten-books',
+  name: '楽天ブックス',
+  matchPatterns: ['https://books.rakuten.co.jp/*'],
+
+  matchesHost(hostname: string): boolean {
+    return hostname === 'books.rakuten.co.jp';
+  },
+
+  // Item pages live at /rb/item-number/; the item number only identifies a
+  // product until the page has been read for its ISBN or JAN
+  parseProductUrl(url: string): ProductUrlParts | null {
+    const matches = url.match(/books\.rakuten\.co\.jp\/rb\/(\d+)(?:[\/?#]|$)/);
+    return matches ? { shopId: '', itemCode: matches[1] } : null;
+  },
+
+  getProductCode(doc: Document): string | null {
+    const itemprop = doc.querySelector('[itemprop="isbn"], [itemprop="gtin13"]');
+    const labelled = Array.from(doc.querySelectorAll('.productInfo li'))
+      .filter(row => PRODUCT_CODE_LABEL.test(row.querySelector('.category')?.textContent || ''))
+      .map(row => row.querySelector('.categoryValue')?.textContent);
+    return [itemprop?.getAttribute('content'), itemprop?.textContent, ...labelled]
+      .map(text => (text || '').replace(/\D/g, ''))
+      .find(code => PRODUCT_CODE_PATTERN.test(code)) || null;
+  },
+
+  rules: {
+    title: TITLE_SELECTORS,
+    price: PRICE_SELECTORS,
+    availability: STATUS_SELECTORS,
+    seller: SELLER_SELECTORS
+  },
+
+  getTitle(doc: Document): string | null {
+    return queryText(doc, TITLE_SELECTORS);
+  },
+
+  getPrice(doc: Document): number | null {
+    const text = queryText(doc, PRICE_SELECTORS);
+    return text ? parsePriceText(text) : null;
+  },
+
+  getAvailability(doc: Document): string {
+    const text = queryText(doc, STATUS_SELECTORS);
+    return text ? classifyStatusText(text) : 'unknown';
+  },
+
+  // Books are sold by Rakuten itself, so the author stands in for the seller
+  getSeller(doc: Document): string | null {
+    return queryText(doc, SELLER_SELECTORS);
+  },
+
+  parsePage(html: string): PageObservation {
+    return {
+      title: matchText(html, [/<h1[^>]*>([\s\S]*?)<\/h1>/i]) || getPageTitle(html),
+      price: parsePrice(html),
+      availability: parseAvailability(html)
+    };
+  }
+};
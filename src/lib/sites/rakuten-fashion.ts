@@ -0,0 +1,106 @@
+import {
+  findMetaContent,
+  getPageTitle,
+  matchText,
+  parsePriceText,
+  parseSchemaAvailability,
+  queryText,
+  type PageObservation,
+  type ProductUrlParts,
+  type SiteAdapter
+} from './site-adapter.js';
+
+const TITLE_SELECTORS = ['h1.item-name', '.item-detail h1', 'meta[itemprop="name"]', 'meta[property="og:title"]'];
+
+// Sale prices are shown next to the struck-through original price
+const PRICE_SELECTORS = [
+  '.item-price .sale-price',
+  '.item-price .price',
+  'meta[itemprop="price"]',
+  '.item-price'
+];
+
+const SELLER_SELECTORS = ['.item-brand-name', '.brand-name a', 'meta[itemprop="brand"]'];
+
+function classifyStockText(text: string): string {
+  if (/(SOLD OUT|在庫なし|売り切れ|販売終了)/i.test(text)) return 'out_of_stock';
+  if (/(再入荷|予約|入荷待ち)/.test(text)) return 'backorder';
+  if (/(カートに入れる|在庫あり|残りわずか)/.test(text)) return 'available';
+  return 'unknown';
+}
+
+// Each size and colour has its own stock label; any buyable one counts
+function summarizeStock(labels: string[]): string {
+  if (labels.includes('available')) return 'available';
+  if (labels.includes('backorder')) return 'backorder';
+  if (labels.includes('out_of_stock')) return 'out_of_stock';
+  return 'unknown';
+}
+
+function parsePrice(html: string): number | null {
+  const text = matchText(html, [
+    /class=["'][^"']*sale-price[^"']*["'][^>]*>([\s\S]*?)<\//i
+  ]) || findMetaContent(html, 'itemprop', 'price');
+  return text ? parsePriceText(text) : null;
+}
+
+function parseAvailability(html: string): string {
+  const schemaAvailability = parseSchemaAvailability(html);
+  if (schemaAvailability) return schemaAvailability;
+
+  const labels = Array.from(html.matchAll(/class=["'][^"']*(?:item|sku)-stock[^"']*["'][^>]*>([\s\S]*?)<\//gi))
+    .map(match => classifyStockText(match[1]));
+  return summarizeStock(labels);
+}
+
+export const rakutenFashionAdapter: SiteAdapter = {
+  id: 'rakuten-fashion',
+  name: 'Rakuten Fashion',
+  matchPatterns: ['https://brandavenue.rakuten.co.jp/*'],
+
+  matchesHost(hostname: string): boolean {
+    return hostname === 'brandavenue.rakuten.co.jp';
+  },
+
+  // Item pages live at /item/item-code/ whichever brand sells them
+  parseProductUrl(url: string): ProductUrlParts | null {
+    const matches = url.match(/brandavenue\.rakuten\.co\.jp\/item\/([^\/?#]+)/);
+    return matches ? { shopId: '', itemCode: matches[1] } : null;
+  },
+
+  rules: {
+    title: TITLE_SELECTORS,
+    price: PRICE_SELECTORS,
+    availability: ['.item-stock', '.sku-stock'],
+    seller: SELLER_SELECTORS
+  },
+
+  getTitle(doc: Document): string | null {
+    return queryText(doc, TITLE_SELECTORS);
+  },
+
+  getPrice(doc: Document): number | null {
+    const text = queryText(doc, PRICE_SELECTORS);
+    return text ? parsePriceText(text) : null;
+  },
+
+  getAvailability(doc: Document): string {
+    const labels = Array.from(doc.querySelectorAll('.item-stock, .sku-stock'))
+      .map(element => classifyStockText(element.textContent || ''));
+    const availability = summarizeStock(labels);
+    if (availability !== 'unknown') return availability;
+    return doc.querySelector('.add-to-cart:not([disabled])') ? 'available' : 'unknown';
+  },
+
+  getSeller(doc: Document): string | null {
+    return queryText(doc, SELLER_SELECTORS);
+  },
+
+  parsePage(html: string): PageObservation {
+    return {
+      title: matchText(html, [/<h1[^>]*class=["'][^"']*item-name[^"']*["'][^>]*>([\s\S]*?)<\/h1>/i]) || getPageTitle(html),
+      price: parsePrice(html),
+      availability: parseAvailability(html)
+    };
+  }
+};
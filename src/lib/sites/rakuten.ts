@@ -0,0 +1,293 @@
+import {
+  findMetaContent,
+  getPageTitle,
+  matchText,
+  parsePriceText,
+  parseSchemaAvailability,
+  queryText,
+  readPriceExtras,
+  type PageObservation,
+  type ProductUrlParts,
+  type SiteAdapter
+} from './site-adapter.js';
+import type { PriceExtras } from '../storage-manager.js';
+import { createVariantSelection, type VariantOption, type VariantSelection } from '../variants.js';
+import { detectCampaign } from '../campaigns.js';
+import { BUNDLED_RULE_PACKS, type ExtractionRules } from './rule-packs.js';
+
+const AVAILABILITY_PATTERNS = {
+  available: ['在庫あり', '在庫有り', '即納', '当日発送', 'お届け'],
+  outOfStock: ['在庫なし', '在庫切れ', '売り切れ', '完売', '販売終了', '売り切れ中', '在庫切れ中'],
+  backorder: ['取り寄せ', '予約', 'お取り寄せ', '入荷待ち']
+};
+
+function getTitle(doc: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const element = doc.querySelector(selector);
+    if (element) {
+      // Handle meta tags differently
+      if (element.tagName === 'META') {
+        const content = element.getAttribute('content');
+        if (content?.trim()) return content.trim();
+      } else if (element.textContent?.trim()) {
+        return element.textContent?.trim() || null;
+      }
+    }
+  }
+  return null;
+}
+
+function getPrice(doc: Document, selectors: string[], inner: Record<string, string> = {}): number | null {
+  for (const selector of selectors) {
+    const element = doc.querySelector(selector);
+    if (element) {
+      let text = element.textContent || '';
+
+      // Price containers wrap the number in a nested element
+      const numberElement = inner[selector] ? element.querySelector(inner[selector]) : null;
+      if (numberElement) {
+        text = numberElement.textContent || '';
+      }
+
+      // Extract price from Japanese format (¥1,234 or 1,234円 or just 1,234)
+      const price = parsePriceText(text);
+      if (price !== null) {
+        return price;
+      }
+    }
+  }
+
+  return null;
+}
+
+function getAvailability(doc: Document, availabilitySelectors: string[]): string {
+  // FIRST PRIORITY: Check if purchase buttons are present and enabled
+  // This is the most reliable indicator of availability
+  const addToCartButton = doc.querySelector('[aria-label="かごに追加"]:not([disabled])');
+  const purchaseButton = doc.querySelector('[aria-label="購入手続きへ"]:not([disabled])');
+
+  if (addToCartButton && purchaseButton) {
+    return 'available';
+  }
+
+  // SECOND PRIORITY: Check for delivery information as a positive availability indicator
+  const deliveryInfo = doc.querySelector('.normal-reserve-deliveryDate');
+  if (deliveryInfo && deliveryInfo.textContent?.includes('お届け')) {
+    return 'available';
+  }
+
+  // THIRD PRIORITY: Check quantity selector (if present, usually means available)
+  const quantitySelector = doc.querySelector('.normal-reserve-quantity input[type="tel"]');
+  if (quantitySelector && !quantitySelector.hasAttribute('disabled')) {
+    return 'available';
+  }
+
+  // FOURTH PRIORITY: Check for explicit stock status messages
+  for (const selector of availabilitySelectors) {
+    const elements = doc.querySelectorAll(selector);
+    for (const element of elements) {
+      const text = (element.textContent || '').toLowerCase();
+
+      // Check for definitive out of stock patterns
+      if (AVAILABILITY_PATTERNS.outOfStock.some(pattern => text.includes(pattern))) {
+        return 'out_of_stock';
+      }
+
+      if (AVAILABILITY_PATTERNS.backorder.some(pattern => text.includes(pattern))) {
+        return 'backorder';
+      }
+
+      if (AVAILABILITY_PATTERNS.available.some(pattern => text.includes(pattern))) {
+        return 'available';
+      }
+    }
+  }
+
+  // Check for disabled purchase buttons (strong indicator of unavailability)
+  const disabledAddToCart = doc.querySelector('[aria-label="かごに追加"][disabled]');
+  const disabledPurchase = doc.querySelector('[aria-label="購入手続きへ"][disabled]');
+
+  if (disabledAddToCart || disabledPurchase) {
+    return 'out_of_stock';
+  }
+
+  return 'unknown';
+}
+
+function getSeller(doc: Document, parts: ProductUrlParts | null, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const element = doc.querySelector(selector);
+    if (element) {
+      // Handle meta tags
+      if (element.tagName === 'META') {
+        const content = element.getAttribute('content');
+        if (content?.trim()) return content.trim();
+      } else if (element.textContent?.trim()) {
+        return element.textContent.trim();
+      }
+    }
+  }
+
+  // Fallback: Extract shop name from URL (shopId)
+  if (parts?.shopId) {
+    return parts.shopId;
+  }
+
+  return null;
+}
+
+// Legacy item option dropdowns and the newer SKU button groups
+const VARIANT_SELECT_SELECTORS = 'select[name^="choice"], .normal-reserve-sku select';
+const VARIANT_GROUP_SELECTORS = '.sku-selector';
+
+function getSelectedVariant(doc: Document): VariantSelection | null {
+  const options: VariantOption[] = [];
+
+  for (const select of doc.querySelectorAll<HTMLSelectElement>(VARIANT_SELECT_SELECTORS)) {
+    const option = select.options[select.selectedIndex];
+    // The placeholder option ("選択してください") has no value
+    if (!option || !option.value) return null;
+    options.push({ value: option.value, label: option.textContent || option.value });
+  }
+
+  for (const group of doc.querySelectorAll(VARIANT_GROUP_SELECTORS)) {
+    const chosen = group.querySelector('[aria-checked="true"], [aria-pressed="true"]');
+    if (!chosen) return null;
+    const label = chosen.textContent?.trim() || '';
+    options.push({ value: chosen.getAttribute('data-value') || label, label });
+  }
+
+  return createVariantSelection(options);
+}
+
+// Points and shipping sit just below the price
+const POINT_SELECTORS = ['[class*="point-summary"]', '.normal-reserve-point', '.point_up', '[data-testid="point"]'];
+const SHIPPING_SELECTORS = ['[class*="shipping-cost"]', '.normal-reserve-shipping', '.dsf-shipping', '[data-testid="shipping"]'];
+
+// Campaign banners are often images, so their alt text is read too. Only the
+// ones beside the price and points count: the site header runs banners for
+// every sale, including ones that haven't started
+const CAMPAIGN_SELECTORS = '[class*="campaign"], [id*="campaign"], [class*="banner"]';
+const CAMPAIGN_PATTERN = /<[^>]*(?:class|id)=["'][^"']*(?:campaign|banner)[^"']*["'][^>]*>[\s\S]*?<\/(?:div|a|section|p)>/gi;
+const PRICE_AREA_PATTERN = /<[^>]*(?:item-price--3LAZB|id=["']itemPrice|primary--31sgd|price2)[\s\S]*?(?:point-summary|normal-reserve-point|point_up)[^>]*>[\s\S]*?<\/(?:div|span|p)>/i;
+
+// The closest element holding both the price and the points
+function getPriceArea(doc: Document, priceSelectors: string[]): Element | null {
+  const price = priceSelectors.map(selector => doc.querySelector(selector)).find(Boolean);
+  const points = doc.querySelector(POINT_SELECTORS.join(', '));
+  let area = price?.parentElement ?? null;
+  while (area && points && !area.contains(points)) {
+    area = area.parentElement;
+  }
+  return area;
+}
+
+function getCampaign(doc: Document, priceSelectors: string[]): string | null {
+  const area = getPriceArea(doc, priceSelectors);
+  if (!area) return null;
+
+  for (const element of area.querySelectorAll(CAMPAIGN_SELECTORS)) {
+    if (element.closest('header, #header')) continue;
+    const alts = Array.from(element.querySelectorAll('img[alt]'), image => image.getAttribute('alt'));
+    const campaign = detectCampaign([element.textContent, element.getAttribute('alt'), ...alts].join(' '));
+    if (campaign) return campaign;
+  }
+  return null;
+}
+
+function withCampaign(extras: PriceExtras, campaign: string | null): PriceExtras {
+  return campaign ? { ...extras, campaign } : extras;
+}
+
+function getPriceExtras(doc: Document, priceSelectors: string[]): PriceExtras {
+  const extras = readPriceExtras(queryText(doc, POINT_SELECTORS), queryText(doc, SHIPPING_SELECTORS));
+  return withCampaign(extras, getCampaign(doc, priceSelectors));
+}
+
+function parsePriceExtras(html: string): PriceExtras {
+  const extras = readPriceExtras(
+    matchText(html, [/<[^>]*class=["'][^"']*(?:point-summary|normal-reserve-point|point_up)[^"']*["'][^>]*>([\s\S]*?)<\/(?:div|span|p)>/i]),
+    matchText(html, [/<[^>]*class=["'][^"']*(?:shipping-cost|normal-reserve-shipping|dsf-shipping)[^"']*["'][^>]*>([\s\S]*?)<\/(?:div|span|p)>/i])
+  );
+  const banners = html.match(PRICE_AREA_PATTERN)?.[0].match(CAMPAIGN_PATTERN) || [];
+  const campaign = banners.map(detectCampaign).find(Boolean) ?? null;
+  return withCampaign(extras, campaign);
+}
+
+function parseTitle(html: string): string | null {
+  return matchText(html, [
+    /<span[^>]*class=["'][^"']*normal_reserve_item_name[^"']*["'][^>]*>([\s\S]*?)<\/span>/i
+  ]) || getPageTitle(html);
+}
+
+function parsePrice(html: string): number | null {
+  const meta = findMetaContent(html, 'itemprop', 'price');
+  if (meta) {
+    const price = parsePriceText(meta);
+    if (price !== null) return price;
+  }
+
+  const text = matchText(html, [
+    /<[^>]*class=["'][^"']*primary--31sgd[^"']*["'][^>]*>([\s\S]*?)<\/div>/i,
+    /<[^>]*itemprop=["']price["'][^>]*>([\s\S]*?)<\//i,
+    /<[^>]*class=["'][^"']*price2[^"']*["'][^>]*>([\s\S]*?)<\//i
+  ]);
+  return text ? parsePriceText(text) : null;
+}
+
+function parseAvailability(html: string): string {
+  const schemaAvailability = parseSchemaAvailability(html);
+  if (schemaAvailability) return schemaAvailability;
+
+  if (/(売り切れ|在庫切れ|完売|販売終了)/.test(html)) {
+    return 'out_of_stock';
+  }
+  if (/(入荷待ち|お取り寄せ)/.test(html)) {
+    return 'backorder';
+  }
+  if (/aria-label=["']かごに追加["']/.test(html)) {
+    return 'available';
+  }
+  return 'unknown';
+}
+
+// Title, price, availability and seller selectors come from a rule pack, so
+// users can follow Rakuten's markup changes without a new release
+export function createRakutenAdapter(rules: ExtractionRules): SiteAdapter {
+  return {
+    id: 'rakuten',
+    name: '楽天市場',
+    matchPatterns: ['https://item.rakuten.co.jp/*'],
+
+    matchesHost(hostname: string): boolean {
+      return hostname === 'item.rakuten.co.jp';
+    },
+
+    // Item pages live at /shop-id/item-code/, including Rakuten 24 (/rakuten24/...)
+    parseProductUrl(url: string): ProductUrlParts | null {
+      const matches = url.match(/item\.rakuten\.co\.jp\/([^\/?#]+)\/([^\/?#]+)/);
+      return matches ? { shopId: matches[1], itemCode: matches[2] } : null;
+    },
+
+    rules,
+    getTitle: doc => getTitle(doc, rules.title),
+    getPrice: doc => getPrice(doc, rules.price, rules.priceInner),
+    getAvailability: doc => getAvailability(doc, rules.availability),
+    getSeller: (doc, parts) => getSeller(doc, parts, rules.seller),
+    getSelectedVariant,
+    variantControls: `${VARIANT_SELECT_SELECTORS}, ${VARIANT_GROUP_SELECTORS}`,
+    getPriceExtras: doc => getPriceExtras(doc, rules.price),
+    withRules: createRakutenAdapter,
+
+    parsePage(html: string): PageObservation {
+      return {
+        title: parseTitle(html),
+        price: parsePrice(html),
+        availability: parseAvailability(html),
+        ...parsePriceExtras(html)
+      };
+    }
+  };
+}
+
+export const rakutenAdapter = createRakutenAdapter(BUNDLED_RULE_PACKS.rakuten!.rules);
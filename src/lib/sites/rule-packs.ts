@@ -0,0 +1,151 @@
+import type { SiteId } from './site-adapter.js';
+import rakutenPack from './packs/rakuten.json';
+
+export type RuleField = 'title' | 'price' | 'availability' | 'seller';
+
+// Selectors per field, tried in order. A price selector that finds a container
+// can name, in priceInner, the element inside it that holds the number
+export type ExtractionRules = Record<RuleField, string[]> & {
+  priceInner?: Record<string, string>;
+};
+
+// version is the pack's own revision; baseVersion is the bundled revision an
+// edited pack started from, so a newer release can be pointed out
+export interface RulePack {
+  format: number;
+  siteId: SiteId;
+  version: number;
+  baseVersion?: number;
+  updatedAt?: number;
+  rules: ExtractionRules;
+}
+
+// What each selector finds on a page; the first non-null text is the one used
+export interface SelectorMatch {
+  selector: string;
+  valid: boolean;
+  text: string | null;
+}
+
+export type RuleTestReport = Record<RuleField, SelectorMatch[]>;
+
+export const RULE_PACK_FORMAT = 1;
+export const RULE_PACKS_KEY = 'rulePacks';
+export const RULE_FIELDS: RuleField[] = ['title', 'price', 'availability', 'seller'];
+
+export const BUNDLED_RULE_PACKS: Partial<Record<SiteId, RulePack>> = {
+  rakuten: rakutenPack as RulePack
+};
+
+export function getBundledRulePack(siteId: SiteId): RulePack | null {
+  return BUNDLED_RULE_PACKS[siteId] ?? null;
+}
+
+export function isValidSelector(selector: string): boolean {
+  if (!selector.trim()) return false;
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validateRulePack(data: unknown): RulePack {
+  const pack = data as Partial<RulePack> | null;
+  if (!pack || typeof pack !== 'object' || pack.format !== RULE_PACK_FORMAT) {
+    throw new Error('Unsupported rule pack format');
+  }
+  if (typeof pack.siteId !== 'string' || !getBundledRulePack(pack.siteId)) {
+    throw new Error(`Rule packs are not supported for ${pack.siteId}`);
+  }
+  if (typeof pack.version !== 'number' || pack.version < 1) {
+    throw new Error('Rule pack is missing a version');
+  }
+  if (!pack.rules || typeof pack.rules !== 'object') {
+    throw new Error('Rule pack has no rules');
+  }
+
+  const rules = {} as ExtractionRules;
+  for (const field of RULE_FIELDS) {
+    const selectors = pack.rules[field];
+    if (!Array.isArray(selectors) || !selectors.every(selector => typeof selector === 'string')) {
+      throw new Error(`Rule pack has invalid ${field} selectors`);
+    }
+    rules[field] = selectors.map(selector => selector.trim()).filter(Boolean);
+    const invalid = rules[field].find(selector => !isValidSelector(selector));
+    if (invalid) {
+      throw new Error(`Rule pack has an invalid ${field} selector: ${invalid}`);
+    }
+  }
+
+  if (pack.rules.priceInner !== undefined) {
+    const inner = pack.rules.priceInner;
+    const valid = !!inner && typeof inner === 'object' && Object.entries(inner)
+      .every(([container, selector]) => isValidSelector(container) && typeof selector === 'string' && isValidSelector(selector));
+    if (!valid) {
+      throw new Error('Rule pack has invalid priceInner selectors');
+    }
+    rules.priceInner = { ...inner };
+  }
+
+  return {
+    format: RULE_PACK_FORMAT,
+    siteId: pack.siteId,
+    version: pack.version,
+    ...(typeof pack.baseVersion === 'number' ? { baseVersion: pack.baseVersion } : {}),
+    ...(typeof pack.updatedAt === 'number' ? { updatedAt: pack.updatedAt } : {}),
+    rules
+  };
+}
+
+// Saving an edit bumps the revision and remembers which bundled pack it grew from
+export function editRulePack(current: RulePack, rules: ExtractionRules, now = Date.now()): RulePack {
+  return {
+    ...current,
+    version: current.version + 1,
+    baseVersion: current.baseVersion ?? current.version,
+    updatedAt: now,
+    rules
+  };
+}
+
+export function isRulePackOutdated(pack: RulePack): boolean {
+  const bundled = getBundledRulePack(pack.siteId);
+  return !!bundled && pack !== bundled && (pack.baseVersion ?? 0) < bundled.version;
+}
+
+// Meta tags contribute their content, like the adapters' own lookups
+export function testRules(doc: Document, rules: ExtractionRules): RuleTestReport {
+  const report = {} as RuleTestReport;
+  for (const field of RULE_FIELDS) {
+    report[field] = rules[field].map(selector => {
+      if (!isValidSelector(selector)) return { selector, valid: false, text: null };
+      const element = doc.querySelector(selector);
+      const text = element?.tagName === 'META' ? element.getAttribute('content') : element?.textContent;
+      return { selector, valid: true, text: text?.trim() || null };
+    });
+  }
+  return report;
+}
+
+async function getStoredRulePacks(): Promise<Partial<Record<SiteId, RulePack>>> {
+  const result = await chrome.storage.local.get(RULE_PACKS_KEY);
+  return result?.[RULE_PACKS_KEY] || {};
+}
+
+// A saved or imported pack replaces the bundled one for its site
+export async function getRulePack(siteId: SiteId): Promise<RulePack | null> {
+  const stored = await getStoredRulePacks();
+  return stored[siteId] ?? getBundledRulePack(siteId);
+}
+
+export async function saveRulePack(pack: RulePack): Promise<void> {
+  const stored = await getStoredRulePacks();
+  await chrome.storage.local.set({ [RULE_PACKS_KEY]: { ...stored, [pack.siteId]: pack } });
+}
+
+export async function resetRulePack(siteId: SiteId): Promise<void> {
+  const { [siteId]: _removed, ...stored } = await getStoredRulePacks();
+  await chrome.storage.local.set({ [RULE_PACKS_KEY]: stored });
+}
@@ -0,0 +1,172 @@
+import type { PriceExtras } from '../storage-manager.js';
+import type { VariantSelection } from '../variants.js';
+import type { ExtractionRules } from './rule-packs.js';
+
+export type SiteId = 'rakuten' | 'rakuten-books' | 'rakuten-fashion' | 'amazon' | 'yahoo';
+
+// What a fetched product page says about the product right now
+export interface PageObservation extends PriceExtras {
+  title: string | null;
+  price: number | null;
+  availability: string;
+}
+
+// Site-local identity of a product; shopId is empty on single-seller sites
+export interface ProductUrlParts {
+  shopId: string;
+  itemCode: string;
+}
+
+export interface SiteAdapter {
+  id: SiteId;
+  name: string;
+  // Chrome match patterns for the content script and host permissions
+  matchPatterns: string[];
+  matchesHost(hostname: string): boolean;
+  parseProductUrl(url: string): ProductUrlParts | null;
+  // Sites whose pages show a catalogue code (ISBN/JAN) that identifies the
+  // product better than its URL; ids use the code when the page has one
+  getProductCode?(doc: Document): string | null;
+  // Selectors behind the live-page getters, in the order they are tried
+  rules: ExtractionRules;
+  // Live page extraction, run by the content script
+  getTitle(doc: Document): string | null;
+  getPrice(doc: Document): number | null;
+  getAvailability(doc: Document): string;
+  getSeller(doc: Document, parts: ProductUrlParts | null): string | null;
+  // Sites with size/colour options; null until every option is chosen
+  getSelectedVariant?(doc: Document): VariantSelection | null;
+  // Selector for the option pickers read by getSelectedVariant
+  variantControls?: string;
+  // Sites that show a point multiplier or shipping cost next to the price
+  getPriceExtras?(doc: Document): PriceExtras;
+  // Sites whose selectors come from an editable rule pack
+  withRules?(rules: ExtractionRules): SiteAdapter;
+  // Service workers have no DOMParser, so fetched pages are read as text
+  parsePage(html: string): PageObservation;
+}
+
+export const PRODUCT_ID_SEPARATOR = ':';
+
+export function getProductKey(parts: ProductUrlParts): string {
+  return parts.shopId ? `${parts.shopId}_${parts.itemCode}` : parts.itemCode;
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)));
+}
+
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).trim();
+}
+
+export function findMetaContent(html: string, attribute: string, value: string): string | null {
+  const tags = html.match(/<meta\b[^>]*>/gi) || [];
+  for (const tag of tags) {
+    if (!new RegExp(`${attribute}=["']${value}["']`, 'i').test(tag)) continue;
+    const content = tag.match(/content=["']([^"']*)["']/i);
+    if (content && content[1].trim()) {
+      return decodeEntities(content[1].trim());
+    }
+  }
+  return null;
+}
+
+// First capture of the first pattern that yields non-empty text
+export function matchText(html: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match && stripTags(match[1])) {
+      return stripTags(match[1]);
+    }
+  }
+  return null;
+}
+
+// Handles ¥1,234, 1,234円 and full-width ￥ prices
+export function parsePriceText(text: string): number | null {
+  const matches = text.match(/[\d,]+/);
+  if (!matches) return null;
+  const price = parseInt(matches[0].replace(/,/g, ''));
+  return isNaN(price) ? null : price;
+}
+
+// "ポイント5倍" or "(10倍)"; half multipliers like 2.5倍 appear during campaigns
+export function parsePointMultiplier(text: string): number | null {
+  const normalized = text.replace(/[０-９．]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+  const match = normalized.match(/(\d+(?:\.\d+)?)\s*倍/);
+  if (!match) return null;
+  const multiplier = parseFloat(match[1]);
+  return multiplier > 0 ? multiplier : null;
+}
+
+// 3,980円以上で送料無料 depends on the cart total, so it says nothing about this item
+const FREE_SHIPPING_THRESHOLD = /[¥￥]?[\d,]+\s*円?\s*以上[^\d¥￥]{0,6}?送料無料|送料無料ライン[^\d¥￥]{0,6}[¥￥]?[\d,]+\s*円?(?:以上)?/g;
+
+// 送料無料 and 送料込 are free; 送料別 without an amount is unknown
+export function parseShippingCost(text: string): number | null {
+  const rest = text.replace(FREE_SHIPPING_THRESHOLD, ' ');
+  if (/送料無料|送料込|送料0円/.test(rest)) return 0;
+  const match = rest.match(/送料[^\d¥￥]{0,6}[¥￥]?\s*([\d,]+)\s*円?/);
+  return match ? parsePriceText(match[1]) : null;
+}
+
+export function readPriceExtras(pointText: string | null, shippingText: string | null): PriceExtras {
+  const extras: PriceExtras = {};
+  const pointMultiplier = pointText ? parsePointMultiplier(pointText) : null;
+  const shippingCost = shippingText ? parseShippingCost(shippingText) : null;
+  if (pointMultiplier !== null) extras.pointMultiplier = pointMultiplier;
+  if (shippingCost !== null) extras.shippingCost = shippingCost;
+  return extras;
+}
+
+export function parseSchemaAvailability(html: string): string | null {
+  const schemaAvailability = html.match(/schema\.org\/(InStock|OutOfStock|SoldOut|PreOrder|BackOrder)/i);
+  return schemaAvailability ? toAvailability(schemaAvailability[1]) : null;
+}
+
+// Accepts "InStock" as well as "https://schema.org/InStock"
+export function toSchemaAvailability(value: string): string | null {
+  const schemaAvailability = value.trim().match(/(?:^|\/)(InStock|OutOfStock|SoldOut|PreOrder|BackOrder)$/i);
+  return schemaAvailability ? toAvailability(schemaAvailability[1]) : null;
+}
+
+function toAvailability(schemaValue: string): string {
+  switch (schemaValue.toLowerCase()) {
+    case 'instock':
+      return 'available';
+    case 'outofstock':
+    case 'soldout':
+      return 'out_of_stock';
+    default:
+      return 'backorder';
+  }
+}
+
+export function getPageTitle(html: string): string | null {
+  const meta = findMetaContent(html, 'itemprop', 'name') || findMetaContent(html, 'property', 'og:title');
+  if (meta) return meta;
+
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return title && stripTags(title[1]) ? stripTags(title[1]) : null;
+}
+
+// Text of the first matching element; meta tags contribute their content
+export function queryText(doc: Document, selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const element = doc.querySelector(selector);
+    if (!element) continue;
+
+    const text = element.tagName === 'META' ? element.getAttribute('content') : element.textContent;
+    if (text?.trim()) {
+      return text.trim();
+    }
+  }
+  return null;
+}
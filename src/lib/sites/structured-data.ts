@@ -0,0 +1,228 @@
+import { decodeEntities, parsePriceText, toSchemaAvailability, type PageObservation } from './site-adapter.js';
+
+export type FieldSource = 'json-ld' | 'microdata' | 'selector';
+
+// Product facts beyond what the price history needs
+export interface ProductDetails {
+  currency?: string;
+  gtin?: string;
+  brand?: string;
+  images?: string[];
+}
+
+export interface StructuredProduct extends ProductDetails {
+  title?: string;
+  price?: number;
+  availability?: string;
+}
+
+export type StructuredField = keyof StructuredProduct;
+
+export type FieldSources = Partial<Record<StructuredField, FieldSource>>;
+
+export interface StructuredData {
+  product: StructuredProduct;
+  sources: FieldSources;
+}
+
+export interface StructuredObservation extends PageObservation, ProductDetails {
+  fieldSources: FieldSources;
+}
+
+const GTIN_PROPERTIES = ['gtin13', 'gtin', 'gtin12', 'gtin14', 'gtin8'];
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+type JsonObject = Record<string, any>;
+
+function toList<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? decodeEntities(value.trim()) : undefined;
+}
+
+function toPrice(value: unknown): number | undefined {
+  if (typeof value === 'number') return isFinite(value) && value > 0 ? Math.round(value) : undefined;
+  const price = typeof value === 'string' ? parsePriceText(value) : null;
+  return price !== null && price > 0 ? price : undefined;
+}
+
+// Drops fields that weren't found so they can't shadow a later source
+function compact(product: StructuredProduct): StructuredProduct {
+  const found: StructuredProduct = {};
+  for (const [field, value] of Object.entries(product) as [StructuredField, any][]) {
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+      found[field] = value;
+    }
+  }
+  return found;
+}
+
+// Earlier sources win field by field
+function combineSources(candidates: [FieldSource, StructuredProduct][]): StructuredData {
+  const product: StructuredProduct = {};
+  const sources: FieldSources = {};
+  for (const [source, values] of candidates) {
+    for (const [field, value] of Object.entries(values) as [StructuredField, any][]) {
+      if (product[field] !== undefined) continue;
+      (product as JsonObject)[field] = value;
+      sources[field] = source;
+    }
+  }
+  return { product, sources };
+}
+
+// Products may sit at the top level, in an array or inside @graph
+function findJsonLdProduct(node: unknown): JsonObject | null {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const product = findJsonLdProduct(item);
+      if (product) return product;
+    }
+    return null;
+  }
+  if (!node || typeof node !== 'object') return null;
+
+  const object = node as JsonObject;
+  if (toList(object['@type']).includes('Product')) return object;
+  return findJsonLdProduct(object['@graph']) ?? findJsonLdProduct(object.mainEntity);
+}
+
+function getOfferPrice(offer: JsonObject): number | undefined {
+  return toPrice(offer.price) ?? toPrice(offer.lowPrice) ?? toPrice(offer.priceSpecification?.price);
+}
+
+function fromJsonLd(product: JsonObject): StructuredProduct {
+  const offers = toList<JsonObject>(product.offers).filter(offer => offer && typeof offer === 'object');
+  const offer = offers.find(candidate => getOfferPrice(candidate) !== undefined) ?? offers[0];
+  const brand = product.brand;
+  const images = toList<unknown>(product.image)
+    .map(image => toText(typeof image === 'object' ? (image as JsonObject)?.url : image))
+    .filter((image): image is string => !!image);
+
+  return compact({
+    title: toText(product.name),
+    price: offer ? getOfferPrice(offer) : undefined,
+    currency: toText(offer?.priceCurrency ?? offer?.priceSpecification?.priceCurrency),
+    availability: offer?.availability ? toSchemaAvailability(String(offer.availability)) ?? undefined : undefined,
+    gtin: GTIN_PROPERTIES.map(property => toText(product[property] ?? offer?.[property])).find(Boolean),
+    brand: toText(typeof brand === 'object' ? brand?.name : brand),
+    images
+  });
+}
+
+// Malformed blocks are common and skipped rather than failing extraction
+function parseJsonLd(blocks: string[]): StructuredProduct {
+  for (const block of blocks) {
+    try {
+      const product = findJsonLdProduct(JSON.parse(block));
+      if (product) return fromJsonLd(product);
+    } catch {
+      continue;
+    }
+  }
+  return {};
+}
+
+function fromMicrodata(read: (property: string) => string | null, readBrand: () => string | null): StructuredProduct {
+  const availability = read('availability');
+  const image = read('image');
+  return compact({
+    title: read('name') ?? undefined,
+    price: toPrice(read('price')),
+    currency: read('priceCurrency') ?? undefined,
+    availability: availability ? toSchemaAvailability(availability) ?? undefined : undefined,
+    gtin: GTIN_PROPERTIES.map(read).find(Boolean) ?? undefined,
+    brand: readBrand() ?? undefined,
+    images: image ? [image] : []
+  });
+}
+
+function getItempropValue(element: Element): string | null {
+  const value = element.getAttribute('content') ?? element.getAttribute('href') ?? element.getAttribute('src') ?? element.textContent;
+  return value?.trim() || null;
+}
+
+// Properties of the product itself or its offer, not of nested breadcrumbs or reviews
+function findItemprop(scope: ParentNode, property: string): Element | null {
+  for (const element of scope.querySelectorAll(`[itemprop~="${property}"]`)) {
+    const owner = element.parentElement?.closest('[itemscope]');
+    if (!owner || owner === scope || owner.matches('[itemprop~="offers"]')) return element;
+  }
+  return null;
+}
+
+export function readStructuredData(doc: Document): StructuredData {
+  const blocks = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'), script => script.textContent || '');
+  // Pages without an itemscope still put itemprop meta tags in the head
+  const scope: ParentNode = doc.querySelectorAll('[itemscope][itemtype*="schema.org/Product"]')[0] ?? doc;
+  const read = (property: string) => {
+    const element = findItemprop(scope, property);
+    return element ? getItempropValue(element) : null;
+  };
+  const readBrand = () => {
+    const brand = findItemprop(scope, 'brand');
+    if (!brand?.hasAttribute('itemscope')) return brand ? getItempropValue(brand) : null;
+    const name = brand.querySelector('[itemprop~="name"]');
+    return name ? getItempropValue(name) : null;
+  };
+
+  return combineSources([['json-ld', parseJsonLd(blocks)], ['microdata', fromMicrodata(read, readBrand)]]);
+}
+
+// Fetched pages can't be scoped without a DOM, so the first tag carrying the property wins
+function matchItemprop(html: string, property: string): string | null {
+  const pattern = new RegExp(`(<[^>]*\\bitemprop=["']${property}["'][^>]*>)([^<]*)`, 'gi');
+  for (const match of html.matchAll(pattern)) {
+    const attribute = match[1].match(/\b(?:content|href|src)=["']([^"']*)["']/i);
+    const value = (attribute ? attribute[1] : match[2]).trim();
+    if (value) return decodeEntities(value);
+  }
+  return null;
+}
+
+export function parseStructuredData(html: string): StructuredData {
+  const blocks = Array.from(html.matchAll(JSON_LD_PATTERN), match => match[1]);
+  const read = (property: string) => matchItemprop(html, property);
+  return combineSources([['json-ld', parseJsonLd(blocks)], ['microdata', fromMicrodata(read, () => read('brand'))]]);
+}
+
+// Fields structured data lacked were filled by the adapter's selectors
+export function resolveFieldSources(sources: FieldSources, found: Partial<Record<StructuredField, unknown>>): FieldSources {
+  const resolved: FieldSources = { ...sources };
+  for (const [field, value] of Object.entries(found) as [StructuredField, unknown][]) {
+    if (resolved[field] === undefined && value !== null && value !== undefined && value !== 'unknown') {
+      resolved[field] = 'selector';
+    }
+  }
+  return resolved;
+}
+
+// Keeps only the details that were actually found on the page
+export function pickProductDetails(source: ProductDetails): ProductDetails {
+  const details: ProductDetails = {};
+  if (source.currency) details.currency = source.currency;
+  if (source.gtin) details.gtin = source.gtin;
+  if (source.brand) details.brand = source.brand;
+  if (source.images?.length) details.images = source.images;
+  return details;
+}
+
+export function applyStructuredData(observation: PageObservation, data: StructuredData): StructuredObservation {
+  const { product, sources } = data;
+  const title = product.title ?? observation.title;
+  const price = product.price ?? observation.price;
+  const availability = product.availability ?? observation.availability;
+
+  return {
+    ...observation,
+    title,
+    price,
+    availability,
+    ...pickProductDetails(product),
+    fieldSources: resolveFieldSources(sources, { title, price, availability })
+  };
+}
@@ -0,0 +1,117 @@
+import {
+  findMetaContent,
+  getPageTitle,
+  matchText,
+  parsePriceText,
+  parseSchemaAvailability,
+  queryText,
+  type PageObservation,
+  type ProductUrlParts,
+  type SiteAdapter
+} from './site-adapter.js';
+
+// Yahoo! Shopping hashes its class names, so prefixes are matched instead
+const TITLE_SELECTORS = [
+  'h1[class*="styles_name"]',
+  'p.elName',
+  '.mdItemName h1',
+  'meta[itemprop="name"]',
+  'meta[property="og:title"]'
+];
+
+const PRICE_SELECTORS = [
+  'meta[itemprop="price"]',
+  'span[itemprop="price"]',
+  '[class*="styles_price"] [class*="styles_number"]',
+  '.elPriceNumber'
+];
+
+const SELLER_SELECTORS = ['[class*="styles_storeName"]', '.elStoreName a', '.mdStoreName'];
+
+const STOCK_SELECTORS = ['[class*="styles_stock"]', '.elStock', '.mdItemStock'];
+
+function classifyStockText(text: string): string {
+  if (/(在庫切れ|売り切れ|販売終了|完売)/.test(text)) return 'out_of_stock';
+  if (/(入荷待ち|お取り寄せ|予約)/.test(text)) return 'backorder';
+  if (/(在庫あり|在庫有り|残り)/.test(text)) return 'available';
+  return 'unknown';
+}
+
+function parsePrice(html: string): number | null {
+  const text = findMetaContent(html, 'itemprop', 'price') || matchText(html, [
+    /<[^>]*itemprop=["']price["'][^>]*>([\s\S]*?)<\//i,
+    /<[^>]*class=["'][^"']*elPriceNumber[^"']*["'][^>]*>([\s\S]*?)<\//i
+  ]);
+  return text ? parsePriceText(text) : null;
+}
+
+function parseAvailability(html: string): string {
+  const schemaAvailability = parseSchemaAvailability(html);
+  if (schemaAvailability) return schemaAvailability;
+
+  const stockText = matchText(html, [
+    /<[^>]*class=["'][^"']*(?:styles_stock|elStock)[^"']*["'][^>]*>([\s\S]*?)<\/(?:div|p|span)>/i
+  ]);
+  const stock = stockText ? classifyStockText(stockText) : 'unknown';
+  if (stock !== 'unknown') return stock;
+
+  if (/(売り切れ|在庫切れ|販売終了)/.test(html)) return 'out_of_stock';
+  return /カートに入れる/.test(html) ? 'available' : 'unknown';
+}
+
+export const yahooShoppingAdapter: SiteAdapter = {
+  id: 'yahoo',
+  name: 'Yahoo!ショッピング',
+  matchPatterns: ['https://store.shopping.yahoo.co.jp/*'],
+
+  matchesHost(hostname: string): boolean {
+    return hostname === 'store.shopping.yahoo.co.jp';
+  },
+
+  // Item pages live at /store-id/item-code.html
+  parseProductUrl(url: string): ProductUrlParts | null {
+    const matches = url.match(/store\.shopping\.yahoo\.co\.jp\/([^\/?#]+)\/([^\/?#]+?)\.html/);
+    return matches ? { shopId: matches[1], itemCode: matches[2] } : null;
+  },
+
+  rules: {
+    title: TITLE_SELECTORS,
+    price: PRICE_SELECTORS,
+    availability: STOCK_SELECTORS,
+    seller: SELLER_SELECTORS
+  },
+
+  getTitle(doc: Document): string | null {
+    return queryText(doc, TITLE_SELECTORS);
+  },
+
+  getPrice(doc: Document): number | null {
+    const text = queryText(doc, PRICE_SELECTORS);
+    return text ? parsePriceText(text) : null;
+  },
+
+  getAvailability(doc: Document): string {
+    const text = queryText(doc, STOCK_SELECTORS);
+    const availability = text ? classifyStockText(text) : 'unknown';
+    if (availability !== 'unknown') return availability;
+
+    const schema = doc.querySelector('[itemprop="availability"]');
+    const schemaValue = schema?.getAttribute('href') || schema?.getAttribute('content') || '';
+    return parseSchemaAvailability(schemaValue) || 'unknown';
+  },
+
+  getSeller(doc: Document, parts: ProductUrlParts | null): string | null {
+    return queryText(doc, SELLER_SELECTORS) || parts?.shopId || null;
+  },
+
+  parsePage(html: string): PageObservation {
+    return {
+      title: matchText(html, [
+        /<h1[^>]*class=["'][^"']*styles_name[^"']*["'][^>]*>([\s\S]*?)<\/h1>/i,
+        /<p[^>]*class=["'][^"']*elName[^"']*["'][^>]*>([\s\S]*?)<\/p>/i
+      ]) || getPageTitle(html),
+      price: parsePrice(html),
+      availability: parseAvailability(html)
+    };
+  }
+};
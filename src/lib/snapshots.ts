@@ -0,0 +1,169 @@
+import {
+  RULE_FIELDS,
+  getSiteAdapter,
+  rakutenAdapter,
+  type ExtractionRules,
+  type RuleField,
+  type SiteId
+} from './sites/index.js';
+import { diagnosePage, type ExtractionReport } from './diagnostics.js';
+
+// A product page as the extractor saw it, kept so a failed extraction can be
+// replayed later. expected is filled in by hand when a snapshot becomes a test fixture
+export interface PageSnapshot {
+  format: number;
+  url: string;
+  siteId: SiteId | null;
+  capturedAt: number;
+  html: string;
+  report: ExtractionReport;
+  expected?: Partial<Record<RuleField, string | number | null>>;
+}
+
+export const SNAPSHOT_FORMAT = 1;
+export const SNAPSHOTS_KEY = 'pageSnapshots';
+// Pages run to hundreds of kilobytes even stripped, so only a few are kept
+export const MAX_SNAPSHOTS = 5;
+
+// JSON-LD stays since the extractor reads it; our own button and panel go
+const REMOVED_ELEMENTS = [
+  'script:not([type="application/ld+json"])',
+  'noscript',
+  'iframe',
+  'object',
+  'embed',
+  'style',
+  'link:not([itemprop])',
+  'template',
+  'input[type="hidden"]',
+  'meta[name*="token"]',
+  'meta[name*="csrf"]',
+  '#rakuten-price-tracker-fab'
+].join(', ');
+
+// Signed-in headers show the member's name, points balance and cart
+const PERSONAL_ELEMENTS = [
+  '[class*="member"]',
+  '[id*="member"]',
+  '[class*="user-name"]',
+  '[class*="username"]',
+  '[class*="mypage"]',
+  '[class*="login"]',
+  '[id*="login"]',
+  '[class*="account"]',
+  '[id*="account"]'
+].join(', ');
+
+const URL_ATTRIBUTES = ['href', 'src', 'action'];
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const COMMENT_PATTERN = /<!--[\s\S]*?-->/g;
+
+// Query strings and fragments carry tracking and session parameters
+export function sanitizeUrl(url: string): string {
+  return url.replace(/[?#].*$/, '');
+}
+
+export function sanitizeDocument(doc: Document): string {
+  const root = doc.documentElement.cloneNode(true) as HTMLElement;
+
+  // Choices made on the page live in properties that cloning doesn't serialize
+  const liveSelects = doc.documentElement.querySelectorAll('select');
+  root.querySelectorAll('select').forEach((select, index) => {
+    const selectedIndex = liveSelects[index]?.selectedIndex ?? -1;
+    Array.from(select.options).forEach((option, position) => {
+      option.toggleAttribute('selected', position === selectedIndex);
+    });
+  });
+
+  root.querySelectorAll(REMOVED_ELEMENTS).forEach(element => element.remove());
+  // A logged-in class on body would otherwise take the whole page with it
+  root.querySelectorAll(PERSONAL_ELEMENTS).forEach(element => {
+    if (element.tagName !== 'BODY') element.remove();
+  });
+  root.querySelectorAll('input, textarea').forEach(field => {
+    field.removeAttribute('value');
+    if (field.tagName === 'TEXTAREA') field.textContent = '';
+  });
+
+  for (const element of root.querySelectorAll('*')) {
+    for (const { name, value } of Array.from(element.attributes)) {
+      if (name.startsWith('on')) {
+        element.removeAttribute(name);
+      } else if (URL_ATTRIBUTES.includes(name)) {
+        element.setAttribute(name, sanitizeUrl(value));
+      }
+    }
+  }
+
+  return `<!DOCTYPE html>\n${root.outerHTML}`
+    .replace(COMMENT_PATTERN, '')
+    .replace(EMAIL_PATTERN, '[email]');
+}
+
+export function createSnapshot(doc: Document, report: ExtractionReport, now = Date.now()): PageSnapshot {
+  return {
+    format: SNAPSHOT_FORMAT,
+    url: sanitizeUrl(report.url),
+    siteId: report.siteId,
+    capturedAt: now,
+    html: sanitizeDocument(doc),
+    report
+  };
+}
+
+export function validateSnapshot(data: unknown): PageSnapshot {
+  const snapshot = data as Partial<PageSnapshot> | null;
+  if (!snapshot || typeof snapshot !== 'object' || snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Unsupported snapshot format');
+  }
+  if (typeof snapshot.url !== 'string' || !/^https:\/\//.test(snapshot.url)) {
+    throw new Error('Snapshot is missing its page URL');
+  }
+  if (typeof snapshot.html !== 'string' || !snapshot.html) {
+    throw new Error('Snapshot has no page content');
+  }
+  if (typeof snapshot.capturedAt !== 'number' || !snapshot.report || typeof snapshot.report !== 'object') {
+    throw new Error('Snapshot is missing its extraction report');
+  }
+  return snapshot as PageSnapshot;
+}
+
+// Runs the extraction against the stored page, optionally with edited rules
+export function replaySnapshot(snapshot: PageSnapshot, rules?: ExtractionRules | null): ExtractionReport {
+  const doc = new DOMParser().parseFromString(snapshot.html, 'text/html');
+  const site = getSiteAdapter(snapshot.url) ?? rakutenAdapter;
+  const adapter = rules && site.withRules ? site.withRules(rules) : site;
+  return diagnosePage(doc, snapshot.url, adapter, 'replay');
+}
+
+// Fields whose replayed value differs from the expected one, or from the
+// captured one when nothing is expected yet
+export function getReplayChanges(snapshot: PageSnapshot, replayed: ExtractionReport): RuleField[] {
+  return RULE_FIELDS.filter(field => {
+    const expected = snapshot.expected && field in snapshot.expected
+      ? snapshot.expected[field]
+      : snapshot.report.fields[field].value;
+    return (expected ?? null) !== replayed.fields[field].value;
+  });
+}
+
+export function getSnapshotFileName(snapshot: PageSnapshot): string {
+  return `rakuten-price-tracker-snapshot-${snapshot.siteId ?? 'page'}-${snapshot.capturedAt}.json`;
+}
+
+// Newest first
+export async function getSnapshots(): Promise<PageSnapshot[]> {
+  const result = await chrome.storage.local.get(SNAPSHOTS_KEY);
+  return result?.[SNAPSHOTS_KEY] || [];
+}
+
+export async function saveSnapshot(snapshot: PageSnapshot): Promise<void> {
+  const snapshots = await getSnapshots();
+  const others = snapshots.filter(stored => stored.capturedAt !== snapshot.capturedAt);
+  await chrome.storage.local.set({ [SNAPSHOTS_KEY]: [snapshot, ...others].slice(0, MAX_SNAPSHOTS) });
+}
+
+export async function deleteSnapshot(capturedAt: number): Promise<void> {
+  const snapshots = await getSnapshots();
+  await chrome.storage.local.set({ [SNAPSHOTS_KEY]: snapshots.filter(snapshot => snapshot.capturedAt !== capturedAt) });
+}
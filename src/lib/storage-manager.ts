@@ -1,35 +1,118 @@
-export interface ProductData {
+import { getProductId, getProductIdFromUrl, type FieldSources, type ProductDetails } from './sites/index.js';
+import { VARIANT_SEPARATOR, getHistoryKeys, getVariantKey, parseHistoryKey, type VariantSelection } from './variants.js';
+import { getDefaultAlertSettings, getRecordingPolicy, getRetentionDays } from './settings.js';
+import { haveExtrasChanged, pickPriceExtras } from './effective-price.js';
+import { planImport, validateImportData, type ImportMode, type ImportPlan, type ImportPreview } from './data-import.js';
+import {
+  combineRollups,
+  partitionByRetention,
+  rollupPoints,
+  toSeries,
+  withHistorySummary,
+  type SeriesPoint
+} from './price-history.js';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  runMigrations,
+  type MigrationResult
+} from './migrations.js';
+
+// Rakuten point multiplier (ポイント5倍) and shipping (送料無料 is 0) shown with the price
+export interface PriceExtras {
+  pointMultiplier?: number;
+  shippingCost?: number;
+  // Sale campaign whose banner was on the page, e.g. お買い物マラソン
+  campaign?: string;
+}
+
+export interface ProductData extends PriceExtras, ProductDetails {
   url: string;
   title: string;
   price: number;
   shopId: string;
   itemCode: string;
+  // ISBN or JAN on sites that key products by it
+  productCode?: string;
   description?: string;
-  images?: string[];
   availability?: string;
   seller?: string;
   timestamp?: number;
+  // Whether each field came from JSON-LD, microdata or the site's selectors
+  fieldSources?: FieldSources;
 }
 
 export interface Product extends ProductData {
   id: string;
   createdAt: number;
   updatedAt: number;
-  priceHistory: PricePoint[];
   alerts: AlertSettings;
+  lastCheckedAt?: number;
+  checkFailures?: number;
+  nextCheckAt?: number;
+  historySummary?: HistorySummary;
+  // Size/colour options seen on the page, keyed by variant id
+  variants?: Record<string, ProductVariant>;
+}
+
+// Variants are only recorded once the user chooses to track them; without
+// their own alert settings they follow the product's
+export interface ProductVariant {
+  id: string;
+  label: string;
+  price: number;
+  availability?: string;
+  tracked: boolean;
+  createdAt: number;
+  updatedAt: number;
+  alerts?: AlertSettings;
+  historySummary?: HistorySummary;
+}
+
+// Alert settings are merged a field at a time
+export type ProductUpdates = Omit<Partial<Product>, 'alerts'> & { alerts?: Partial<AlertSettings> };
+
+export type VariantUpdates = Partial<Pick<ProductVariant, 'tracked'>> & { alerts?: Partial<AlertSettings> | null };
+
+// Derived from the price history store on every history write
+export interface HistorySummary {
+  latestPrice: number;
+  lowestPrice: number;
+  highestPrice: number;
+  pointCount: number;
+  firstRecordedAt: number;
+  lastRecordedAt: number;
 }
 
-export interface PricePoint {
+export interface PricePoint extends PriceExtras {
   price: number;
   timestamp: number;
+  availability?: string;
+  // Latest time the same price and stock state was observed again
+  lastSeenAt?: number;
+}
+
+// Weekly aggregate of points that have aged out of the raw history
+export interface PriceRollup {
+  weekStart: number;
+  min: number;
+  max: number;
+  average: number;
+  count: number;
 }
 
 export interface AlertSettings {
   enabled: boolean;
   threshold: number;
   type: 'both' | 'decrease' | 'increase';
+  targetPrice?: number | null;
+  belowAllTimeLow?: boolean;
+  notifyBackInStock?: boolean;
 }
 
+export type PricePointListener = (productId: string, point: PricePoint, previous: PricePoint | null) => void | Promise<void>;
+
 export interface AddProductResult {
   id: string;
   isNew: boolean;
@@ -39,27 +122,36 @@ export interface ImportResult {
   success: boolean;
   count?: number;
   error?: string;
+  preview?: ImportPreview;
 }
 
 export interface ExportData {
   version: string;
+  schemaVersion?: number;
   exportDate: string;
   products: Record<string, Product>;
   priceHistory: Record<string, PricePoint[]>;
+  priceRollups?: Record<string, PriceRollup[]>;
 }
 
 export class ProductStorageManager {
   public readonly PRODUCTS_KEY = 'trackedProducts';
   public readonly HISTORY_KEY = 'priceHistory';
+  public readonly ROLLUPS_KEY = 'priceRollups';
+  public readonly ALERT_STATE_KEY = 'alertState';
   public readonly cache = new Map<string, Product>();
+  private priceListeners: PricePointListener[] = [];
 
   constructor() {}
 
-  generateProductId(url: string): string {
-    // Extract shop and item code from Rakuten URL
-    const matches = url.match(/item\.rakuten\.co\.jp\/([^\/]+)\/([^\/]+)/);
-    if (matches) {
-      return `${matches[1]}_${matches[2]}`;
+  onPricePoint(listener: PricePointListener): void {
+    this.priceListeners.push(listener);
+  }
+
+  generateProductId(url: string, productCode?: string): string {
+    const productId = getProductId(url, productCode);
+    if (productId) {
+      return productId;
     }
     // Fallback to URL hash
     return btoa(url).replace(/[^a-zA-Z0-9]/g, '').substring(0, 16);
@@ -87,9 +179,18 @@ export class ProductStorageManager {
     return product;
   }
 
+  // Products keyed by a catalogue code are found through the URL they were tracked from
+  async findProductByUrl(url: string): Promise<Product | null> {
+    const urlId = getProductIdFromUrl(url);
+    if (!urlId) return null;
+    
+    const products = await this.getAllProducts();
+    return products[urlId] || Object.values(products).find(product => getProductIdFromUrl(product.url) === urlId) || null;
+  }
+
   async addProduct(productData: ProductData): Promise<AddProductResult> {
     const products = await this.getAllProducts();
-    const productId = this.generateProductId(productData.url);
+    const productId = this.generateProductId(productData.url, productData.productCode);
     
     // Check if already tracking
     if (products[productId]) {
@@ -102,38 +203,41 @@ export class ProductStorageManager {
       id: productId,
       createdAt: now,
       updatedAt: now,
-      priceHistory: [{
-        price: productData.price,
-        timestamp: now
-      }],
-      alerts: {
-        enabled: false,
-        threshold: 0.1, // 10% change
-        type: 'both'
-      }
+      alerts: await getDefaultAlertSettings()
     };
     
     await chrome.storage.local.set({ [this.PRODUCTS_KEY]: products });
     
     // Initialize price history
-    await this.addPricePoint(productId, productData.price);
+    await this.addPricePoint(productId, productData.price, productData.availability);
     
     return { id: productId, isNew: true };
   }
 
-  async updateProduct(productId: string, updates: Partial<Product>): Promise<Product> {
+  async updateProduct(productId: string, updates: ProductUpdates): Promise<Product> {
     const products = await this.getAllProducts();
     
     if (!products[productId]) {
       throw new Error(`Product ${productId} not found`);
     }
     
+    // The history summary is derived and can't be set directly
+    const { historySummary: _derived, alerts, ...changes } = updates;
+    const existing = products[productId];
     products[productId] = {
-      ...products[productId],
-      ...updates,
+      ...existing,
+      ...changes,
       updatedAt: Date.now()
     };
     
+    // Alert settings are edited a field at a time
+    if (alerts) {
+      products[productId].alerts = {
+        ...existing.alerts,
+        ...alerts
+      };
+    }
+    
     await chrome.storage.local.set({ [this.PRODUCTS_KEY]: products });
     
     // Invalidate cache
@@ -159,6 +263,65 @@ export class ProductStorageManager {
     this.cache.delete(productId);
   }
 
+  async recordVariantObservation(
+    productId: string,
+    selection: VariantSelection,
+    price: number,
+    availability?: string,
+    extras: PriceExtras = {}
+  ): Promise<boolean> {
+    const products = await this.getAllProducts();
+    const product = products[productId];
+    if (!product) return false;
+    
+    const now = Date.now();
+    const existing = product.variants?.[selection.id];
+    const variant: ProductVariant = existing
+      ? { ...existing, label: selection.label, price, updatedAt: now }
+      : { id: selection.id, label: selection.label, price, tracked: false, createdAt: now, updatedAt: now };
+    if (availability) {
+      variant.availability = availability;
+    }
+    products[productId] = { ...product, variants: { ...product.variants, [selection.id]: variant } };
+    await chrome.storage.local.set({ [this.PRODUCTS_KEY]: products });
+    this.cache.delete(productId);
+    
+    if (!variant.tracked) return false;
+    return this.addPricePointIfNew(getVariantKey(productId, selection.id), price, availability, extras);
+  }
+
+  async updateVariant(productId: string, variantId: string, updates: VariantUpdates): Promise<Product> {
+    const products = await this.getAllProducts();
+    const product = products[productId];
+    const existing = product?.variants?.[variantId];
+    
+    if (!product || !existing) {
+      throw new Error(`Variant ${variantId} of product ${productId} not found`);
+    }
+    
+    const variant: ProductVariant = { ...existing, updatedAt: Date.now() };
+    if (updates.tracked !== undefined) {
+      variant.tracked = updates.tracked;
+    }
+    // null goes back to following the product's alert settings
+    if (updates.alerts === null) {
+      delete variant.alerts;
+    } else if (updates.alerts) {
+      variant.alerts = { ...(existing.alerts ?? product.alerts), ...updates.alerts };
+    }
+    
+    products[productId] = { ...product, variants: { ...product.variants, [variantId]: variant }, updatedAt: Date.now() };
+    await chrome.storage.local.set({ [this.PRODUCTS_KEY]: products });
+    this.cache.delete(productId);
+    
+    // Start the history with the price last seen on the page
+    if (variant.tracked && !existing.tracked) {
+      await this.addPricePointIfNew(getVariantKey(productId, variantId), variant.price, variant.availability);
+      return (await this.getProduct(productId))!;
+    }
+    return products[productId];
+  }
+
   async hasTodaysPrice(productId: string): Promise<boolean> {
     const history = await this.getPriceHistory(productId);
     if (history.length === 0) return false;
@@ -172,31 +335,119 @@ export class ProductStorageManager {
     );
   }
 
-  async addPricePointIfNew(productId: string, price: number): Promise<boolean> {
-    // Check if we already have today's price
-    const hasToday = await this.hasTodaysPrice(productId);
-    if (hasToday) {
-      return false; // Price already recorded today
+  async addPricePointIfNew(
+    productId: string,
+    price: number,
+    availability?: string,
+    extras: PriceExtras = {}
+  ): Promise<boolean> {
+    const policy = await getRecordingPolicy();
+    
+    if (policy === 'daily') {
+      // Check if we already have today's price
+      const hasToday = await this.hasTodaysPrice(productId);
+      if (hasToday && !(await this.hasAvailabilityChanged(productId, availability))) {
+        return false; // Price already recorded today
+      }
+    } else {
+      const history = await this.getPriceHistory(productId);
+      const last = history[history.length - 1];
+      if (last && last.price === price && !haveExtrasChanged(last, extras) &&
+          !(await this.hasAvailabilityChanged(productId, availability))) {
+        // Repeated observations only move the last-seen time forward
+        last.lastSeenAt = Date.now();
+        await this.savePriceHistory(productId, history);
+        return false;
+      }
     }
     
     // Add the new price point
-    await this.addPricePoint(productId, price);
+    await this.addPricePoint(productId, price, availability, extras);
     return true; // Price was added
   }
 
-  async addPricePoint(productId: string, price: number): Promise<void> {
-    const history = await this.getPriceHistory(productId);
+  async hasAvailabilityChanged(productId: string, availability?: string): Promise<boolean> {
+    // Stock transitions are recorded even after today's price is in
+    if (!availability || availability === 'unknown') return false;
     
-    history.push({
+    const history = await this.getPriceHistory(productId);
+    const lastKnown = [...history].reverse().find(point => point.availability && point.availability !== 'unknown');
+    return !!lastKnown && lastKnown.availability !== availability;
+  }
+
+  async addPricePoint(productId: string, price: number, availability?: string, extras: PriceExtras = {}): Promise<void> {
+    const history = await this.getPriceHistory(productId);
+    const previous = history.length > 0 ? history[history.length - 1] : null;
+    const point: PricePoint = {
       price,
-      timestamp: Date.now()
-    });
+      timestamp: Date.now(),
+      ...pickPriceExtras(extras)
+    };
+    if (availability) {
+      point.availability = availability;
+    }
     
-    // Keep only last 365 days of data
-    const oneYearAgo = Date.now() - (365 * 24 * 60 * 60 * 1000);
-    const filteredHistory = history.filter(point => point.timestamp > oneYearAgo);
+    history.push(point);
     
-    await this.savePriceHistory(productId, filteredHistory);
+    // Points past the retention window are kept as weekly rollups
+    const retentionDays = await getRetentionDays();
+    const { kept, expired } = partitionByRetention(history, retentionDays);
+    await this.savePriceHistory(productId, kept, expired);
+    await this.notifyPriceListeners(productId, point, previous);
+  }
+
+  async rollupHistory(retentionDays: number): Promise<number> {
+    const result = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY, this.PRODUCTS_KEY]);
+    const allHistory: Record<string, PricePoint[]> = result[this.HISTORY_KEY] || {};
+    const allRollups: Record<string, PriceRollup[]> = result[this.ROLLUPS_KEY] || {};
+    const products: Record<string, Product> = result[this.PRODUCTS_KEY] || {};
+    let rolledUp = 0;
+    
+    for (const [productId, history] of Object.entries(allHistory)) {
+      const { kept, expired } = partitionByRetention(history, retentionDays);
+      if (expired.length === 0) continue;
+      
+      rolledUp += expired.length;
+      allHistory[productId] = kept;
+      allRollups[productId] = combineRollups(allRollups[productId] || [], rollupPoints(expired));
+      this.applyHistorySummary(products, productId, kept, allRollups[productId]);
+    }
+    
+    if (rolledUp > 0) {
+      await chrome.storage.local.set({
+        [this.HISTORY_KEY]: allHistory,
+        [this.ROLLUPS_KEY]: allRollups,
+        [this.PRODUCTS_KEY]: products
+      });
+      this.cache.clear();
+    }
+    return rolledUp;
+  }
+
+  async updateObservedState(productId: string, price: number, availability?: string, extras: PriceExtras = {}): Promise<void> {
+    const products = await this.getAllProducts();
+    const product = products[productId];
+    
+    // Observations for pages we aren't tracking only go to history
+    if (!product) return;
+    if (product.price === price && (!availability || product.availability === availability) &&
+        !haveExtrasChanged(product, extras)) return;
+    
+    await this.updateProduct(productId, {
+      price,
+      ...(availability ? { availability } : {}),
+      ...pickPriceExtras(extras)
+    });
+  }
+
+  private async notifyPriceListeners(productId: string, point: PricePoint, previous: PricePoint | null): Promise<void> {
+    for (const listener of this.priceListeners) {
+      try {
+        await listener(productId, point, previous);
+      } catch (error) {
+        console.error('Price point listener failed:', error);
+      }
+    }
   }
 
   async getPriceHistory(productId: string): Promise<PricePoint[]> {
@@ -205,46 +456,185 @@ export class ProductStorageManager {
     return allHistory[productId] || [];
   }
 
-  async savePriceHistory(productId: string, history: PricePoint[]): Promise<void> {
-    const result = await chrome.storage.local.get(this.HISTORY_KEY);
+  async getPriceRollups(productId: string): Promise<PriceRollup[]> {
+    const result = await chrome.storage.local.get(this.ROLLUPS_KEY);
+    const allRollups = result?.[this.ROLLUPS_KEY] || {};
+    return allRollups[productId] || [];
+  }
+
+  async getPriceSeries(productId: string): Promise<SeriesPoint[]> {
+    const result = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY]);
+    return toSeries(result[this.HISTORY_KEY]?.[productId] || [], result[this.ROLLUPS_KEY]?.[productId] || []);
+  }
+
+  async getAllPriceSeries(): Promise<Record<string, SeriesPoint[]>> {
+    const result = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY, this.PRODUCTS_KEY]);
+    const allHistory: Record<string, PricePoint[]> = result[this.HISTORY_KEY] || {};
+    const allRollups: Record<string, PriceRollup[]> = result[this.ROLLUPS_KEY] || {};
+    const series: Record<string, SeriesPoint[]> = {};
+    
+    for (const productId of Object.keys(result[this.PRODUCTS_KEY] || {})) {
+      series[productId] = toSeries(allHistory[productId] || [], allRollups[productId] || []);
+    }
+    return series;
+  }
+
+  async savePriceHistory(productId: string, history: PricePoint[], expired: PricePoint[] = []): Promise<void> {
+    const result = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY, this.PRODUCTS_KEY]);
     const allHistory = result[this.HISTORY_KEY] || {};
+    const allRollups = result[this.ROLLUPS_KEY] || {};
+    const products = result[this.PRODUCTS_KEY] || {};
     allHistory[productId] = history;
-    await chrome.storage.local.set({ [this.HISTORY_KEY]: allHistory });
+    
+    // History, rollups and the product's summary of them are written together
+    const items: Record<string, unknown> = { [this.HISTORY_KEY]: allHistory };
+    if (expired.length > 0) {
+      allRollups[productId] = combineRollups(allRollups[productId] || [], rollupPoints(expired));
+      items[this.ROLLUPS_KEY] = allRollups;
+    }
+    if (this.applyHistorySummary(products, productId, history, allRollups[productId])) {
+      items[this.PRODUCTS_KEY] = products;
+      this.cache.delete(parseHistoryKey(productId).productId);
+    }
+    await chrome.storage.local.set(items);
+  }
+
+  // Products and each of their variants carry a summary of their own history
+  private applyHistorySummary(
+    products: Record<string, Product>,
+    key: string,
+    history: PricePoint[],
+    rollups?: PriceRollup[]
+  ): boolean {
+    const { productId, variantId } = parseHistoryKey(key);
+    const product = products[productId];
+    if (!product) return false;
+    
+    if (variantId === null) {
+      products[productId] = withHistorySummary(product, history, rollups);
+      return true;
+    }
+    
+    const variant = product.variants?.[variantId];
+    if (!variant) return false;
+    products[productId] = {
+      ...product,
+      variants: { ...product.variants, [variantId]: withHistorySummary(variant, history, rollups) }
+    };
+    return true;
   }
 
   async deletePriceHistory(productId: string): Promise<void> {
-    const result = await chrome.storage.local.get(this.HISTORY_KEY);
+    const result = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY]);
     const allHistory = result[this.HISTORY_KEY] || {};
-    delete allHistory[productId];
-    await chrome.storage.local.set({ [this.HISTORY_KEY]: allHistory });
+    const allRollups = result[this.ROLLUPS_KEY] || {};
+    // Variant histories go with their product
+    const variantPrefix = `${productId}${VARIANT_SEPARATOR}`;
+    for (const store of [allHistory, allRollups]) {
+      for (const key of Object.keys(store)) {
+        if (key === productId || key.startsWith(variantPrefix)) {
+          delete store[key];
+        }
+      }
+    }
+    await chrome.storage.local.set({ [this.HISTORY_KEY]: allHistory, [this.ROLLUPS_KEY]: allRollups });
   }
 
   async exportData(): Promise<ExportData> {
     const products = await this.getAllProducts();
-    const history = await chrome.storage.local.get(this.HISTORY_KEY);
+    const history = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY]);
     
     return {
-      version: '1.0.0',
+      version: chrome.runtime.getManifest().version,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       exportDate: new Date().toISOString(),
       products: products,
-      priceHistory: history[this.HISTORY_KEY] || {}
+      priceHistory: history[this.HISTORY_KEY] || {},
+      priceRollups: history[this.ROLLUPS_KEY] || {}
     };
   }
 
-  async importData(jsonData: string): Promise<ImportResult> {
+  async clearAllData(): Promise<void> {
+    this.cache.clear();
+    await chrome.storage.local.remove([this.PRODUCTS_KEY, this.HISTORY_KEY, this.ROLLUPS_KEY]);
+  }
+
+  async migrateStorage(): Promise<MigrationResult | null> {
+    const result = await chrome.storage.local.get([
+      SCHEMA_VERSION_KEY,
+      this.PRODUCTS_KEY,
+      this.HISTORY_KEY,
+      this.ROLLUPS_KEY,
+      this.ALERT_STATE_KEY
+    ]);
+    const products = result[this.PRODUCTS_KEY];
+    
+    // Fresh installs have nothing to migrate
+    const storedVersion = result[SCHEMA_VERSION_KEY] ?? (products ? LEGACY_SCHEMA_VERSION : CURRENT_SCHEMA_VERSION);
+    if (storedVersion === CURRENT_SCHEMA_VERSION) {
+      if (result[SCHEMA_VERSION_KEY] === undefined) {
+        await chrome.storage.local.set({ [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION });
+      }
+      return null;
+    }
+    
+    const migration = runMigrations({
+      products: products || {},
+      priceHistory: result[this.HISTORY_KEY] || {},
+      priceRollups: result[this.ROLLUPS_KEY] || {},
+      alertState: result[this.ALERT_STATE_KEY] || {}
+    }, storedVersion);
+    
+    await chrome.storage.local.set({
+      [this.PRODUCTS_KEY]: migration.data.products,
+      [this.HISTORY_KEY]: migration.data.priceHistory,
+      [this.ROLLUPS_KEY]: migration.data.priceRollups || {},
+      [this.ALERT_STATE_KEY]: migration.data.alertState || {},
+      [SCHEMA_VERSION_KEY]: migration.to
+    });
+    this.cache.clear();
+    
+    return migration;
+  }
+
+  private async planImport(jsonData: string, mode: ImportMode): Promise<ImportPlan> {
+    const incoming = validateImportData(JSON.parse(jsonData));
+    const products = await this.getAllProducts();
+    const history = await chrome.storage.local.get([this.HISTORY_KEY, this.ROLLUPS_KEY]);
+    
+    return planImport({
+      products,
+      priceHistory: history[this.HISTORY_KEY] || {},
+      priceRollups: history[this.ROLLUPS_KEY] || {}
+    }, incoming, mode);
+  }
+
+  async previewImport(jsonData: string, mode: ImportMode = 'merge'): Promise<ImportResult> {
     try {
-      const data = JSON.parse(jsonData);
-      
-      if (!data.products || !data.version) {
-        throw new Error('Invalid import format');
+      const plan = await this.planImport(jsonData, mode);
+      return { success: true, count: plan.appliedCount, preview: plan.preview };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  async importData(jsonData: string, mode: ImportMode = 'merge'): Promise<ImportResult> {
+    try {
+      const plan = await this.planImport(jsonData, mode);
+      for (const product of Object.values(plan.products)) {
+        for (const key of getHistoryKeys(product)) {
+          this.applyHistorySummary(plan.products, key, plan.priceHistory[key] || [], plan.priceRollups[key]);
+        }
       }
       
       await chrome.storage.local.set({
-        [this.PRODUCTS_KEY]: data.products,
-        [this.HISTORY_KEY]: data.priceHistory || {}
+        [this.PRODUCTS_KEY]: plan.products,
+        [this.HISTORY_KEY]: plan.priceHistory,
+        [this.ROLLUPS_KEY]: plan.priceRollups
       });
+      this.cache.clear();
       
-      return { success: true, count: Object.keys(data.products).length };
+      return { success: true, count: plan.appliedCount, preview: plan.preview };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
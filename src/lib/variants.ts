@@ -0,0 +1,59 @@
+import type { Product, ProductVariant } from './storage-manager.js';
+
+// A variant's price history is stored under productId#variantId
+export const VARIANT_SEPARATOR = '#';
+
+// The size/colour combination currently selected on a product page
+export interface VariantSelection {
+  id: string;
+  label: string;
+}
+
+export interface VariantOption {
+  value: string;
+  label: string;
+}
+
+export function getVariantKey(productId: string, variantId: string): string {
+  return `${productId}${VARIANT_SEPARATOR}${variantId}`;
+}
+
+export function parseHistoryKey(key: string): { productId: string; variantId: string | null } {
+  const separator = key.indexOf(VARIANT_SEPARATOR);
+  if (separator === -1) return { productId: key, variantId: null };
+  return { productId: key.substring(0, separator), variantId: key.substring(separator + 1) };
+}
+
+// One chosen option per group, e.g. colour then size
+export function createVariantSelection(options: VariantOption[]): VariantSelection | null {
+  if (options.length === 0) return null;
+  return {
+    id: options.map(option => (option.value || option.label).trim().replace(/[#\s]+/g, '-')).join('/'),
+    label: options.map(option => option.label.trim()).join(' / ')
+  };
+}
+
+// The product's own history plus one per variant
+export function getHistoryKeys(product: Product): string[] {
+  return [product.id, ...Object.keys(product.variants || {}).map(variantId => getVariantKey(product.id, variantId))];
+}
+
+// A variant seen as a product of its own, so alerts and stats can treat both alike
+export function toVariantProduct(product: Product, variantId: string): Product | null {
+  const variant: ProductVariant | undefined = product.variants?.[variantId];
+  if (!variant) return null;
+
+  const { variants: _variants, historySummary: _summary, ...rest } = product;
+  const view: Product = {
+    ...rest,
+    id: getVariantKey(product.id, variantId),
+    title: `${product.title} (${variant.label})`,
+    price: variant.price,
+    availability: variant.availability,
+    alerts: variant.alerts ?? product.alerts
+  };
+  if (variant.historySummary) {
+    view.historySummary = variant.historySummary;
+  }
+  return view;
+}
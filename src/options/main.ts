@@ -1,15 +1,9 @@
 import '../app.css';
-// import App from './App.svelte';
+import App from './App.svelte';
 
-// For now, just create a simple placeholder
-// TODO: Replace with actual Svelte app once we implement the options interface
-const app = document.createElement('div');
-app.innerHTML = `
-  <div class="container mx-auto p-8">
-    <h1 class="text-2xl font-bold mb-6">Rakuten Price Tracker - Options</h1>
-    <p class="text-gray-600">Options interface coming soon...</p>
-  </div>
-`;
-document.getElementById('app')?.appendChild(app);
+// Initialize the Svelte app
+const app = new App({
+  target: document.getElementById('app')!,
+});
 
 export default app;
\ No newline at end of file
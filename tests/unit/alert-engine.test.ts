@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AlertEngine,
+  shouldAlert,
+  getPercentChange,
+  getProductIdFromNotification
+} from '../../src/background/alert-engine.js';
+
+describe('shouldAlert', () => {
+  const settings = { enabled: true, threshold: 0.1, type: 'both' as const };
+
+  it('should not alert when disabled', () => {
+    expect(shouldAlert({ ...settings, enabled: false }, 1000, 500)).toBe(false);
+  });
+
+  it('should not alert below the threshold', () => {
+    expect(shouldAlert(settings, 1000, 950)).toBe(false);
+  });
+
+  it('should alert on changes at or above the threshold', () => {
+    expect(shouldAlert(settings, 1000, 900)).toBe(true);
+    expect(shouldAlert(settings, 1000, 1100)).toBe(true);
+  });
+
+  it('should treat a zero threshold as percentage alerts off', () => {
+    expect(shouldAlert({ ...settings, threshold: 0 }, 1000, 100)).toBe(false);
+  });
+
+  it('should respect the alert direction', () => {
+    expect(shouldAlert({ ...settings, type: 'decrease' }, 1000, 1200)).toBe(false);
+    expect(shouldAlert({ ...settings, type: 'decrease' }, 1000, 800)).toBe(true);
+    expect(shouldAlert({ ...settings, type: 'increase' }, 1000, 800)).toBe(false);
+    expect(shouldAlert({ ...settings, type: 'increase' }, 1000, 1200)).toBe(true);
+  });
+});
+
+describe('getPercentChange', () => {
+  it('should compute relative change', () => {
+    expect(getPercentChange(1000, 800)).toBeCloseTo(-0.2);
+  });
+
+  it('should return 0 for a zero previous price', () => {
+    expect(getPercentChange(0, 800)).toBe(0);
+  });
+});
+
+describe('getProductIdFromNotification', () => {
+  it('should extract the product id', () => {
+    expect(getProductIdFromNotification('price-alert:shop123_item456:1700000000000')).toBe('shop123_item456');
+    expect(getProductIdFromNotification('price-alert:amazon:B0ABCD1234:1700000000000')).toBe('amazon:B0ABCD1234');
+  });
+
+  it('should ignore other notifications', () => {
+    expect(getProductIdFromNotification('something-else')).toBeNull();
+  });
+});
+
+describe('AlertEngine', () => {
+  let engine: AlertEngine;
+  let mockStorageManager: any;
+  let storedState: Record<string, any>;
+
+  const product = {
+    id: 'shop123_item456',
+    url: 'https://item.rakuten.co.jp/shop123/item456/',
+    title: 'Test Product',
+    price: 1000,
+    alerts: { enabled: true, threshold: 0.1, type: 'both' }
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storedState = {};
+
+    (chrome.storage.local.get as any).mockImplementation(async () => ({ alertState: storedState }));
+    (chrome.storage.local.set as any).mockImplementation(async (items: Record<string, any>) => {
+      storedState = items.alertState;
+    });
+
+    mockStorageManager = {
+      getProduct: vi.fn().mockResolvedValue(product)
+    };
+    engine = new AlertEngine(mockStorageManager);
+  });
+
+  it('should notify with old and new price and percent change', async () => {
+    const notified = await engine.handlePricePoint(
+      product.id,
+      { price: 800, timestamp: 2000 },
+      { price: 1000, timestamp: 1000 }
+    );
+
+    expect(notified).toBe(true);
+    expect(chrome.notifications.create).toHaveBeenCalledWith(
+      'price-alert:shop123_item456:2000',
+      expect.objectContaining({
+        type: 'basic',
+        contextMessage: 'Test Product'
+      })
+    );
+  });
+
+  it('should not notify for the first point of a product', async () => {
+    const notified = await engine.handlePricePoint(product.id, { price: 800, timestamp: 2000 }, null);
+
+    expect(notified).toBe(false);
+    expect(chrome.notifications.create).not.toHaveBeenCalled();
+  });
+
+  it('should not notify twice for the same point', async () => {
+    const point = { price: 800, timestamp: 2000 };
+    const previous = { price: 1000, timestamp: 1000 };
+
+    await engine.handlePricePoint(product.id, point, previous);
+    const second = await engine.handlePricePoint(product.id, point, previous);
+
+    expect(second).toBe(false);
+    expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not repeat a notification for an already reported price', async () => {
+    await engine.handlePricePoint(product.id, { price: 800, timestamp: 2000 }, { price: 1000, timestamp: 1000 });
+    const repeated = await engine.handlePricePoint(product.id, { price: 800, timestamp: 3000 }, { price: 1000, timestamp: 1000 });
+
+    expect(repeated).toBe(false);
+    expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-arm once the price leaves the alert range', async () => {
+    mockStorageManager.getProduct.mockResolvedValue({ ...product, alerts: { ...product.alerts, type: 'decrease' } });
+
+    await engine.handlePricePoint(product.id, { price: 800, timestamp: 2000 }, { price: 1000, timestamp: 1000 });
+    await engine.handlePricePoint(product.id, { price: 1000, timestamp: 3000 }, { price: 800, timestamp: 2000 });
+    const again = await engine.handlePricePoint(product.id, { price: 800, timestamp: 4000 }, { price: 1000, timestamp: 3000 });
+
+    expect(again).toBe(true);
+    expect(chrome.notifications.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not notify when alerts are disabled', async () => {
+    mockStorageManager.getProduct.mockResolvedValue({ ...product, alerts: { ...product.alerts, enabled: false } });
+
+    const notified = await engine.handlePricePoint(product.id, { price: 500, timestamp: 2000 }, { price: 1000, timestamp: 1000 });
+
+    expect(notified).toBe(false);
+    expect(chrome.notifications.create).not.toHaveBeenCalled();
+  });
+
+  describe('target price alerts', () => {
+    const targetProduct = {
+      ...product,
+      alerts: { enabled: true, threshold: 0, type: 'both', targetPrice: 3980 }
+    };
+
+    beforeEach(() => {
+      mockStorageManager.getProduct.mockResolvedValue(targetProduct);
+    });
+
+    it('should fire when the price crosses the target', async () => {
+      const notified = await engine.handlePricePoint(product.id, { price: 3980, timestamp: 2000 }, { price: 4500, timestamp: 1000 });
+
+      expect(notified).toBe(true);
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fire only once while the price stays at or below the target', async () => {
+      await engine.handlePricePoint(product.id, { price: 3900, timestamp: 2000 }, { price: 4500, timestamp: 1000 });
+      const second = await engine.handlePricePoint(product.id, { price: 3500, timestamp: 3000 }, { price: 3900, timestamp: 2000 });
+
+      expect(second).toBe(false);
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-arm after the price goes back above the target', async () => {
+      await engine.handlePricePoint(product.id, { price: 3900, timestamp: 2000 }, { price: 4500, timestamp: 1000 });
+      await engine.handlePricePoint(product.id, { price: 4200, timestamp: 3000 }, { price: 3900, timestamp: 2000 });
+      const again = await engine.handlePricePoint(product.id, { price: 3800, timestamp: 4000 }, { price: 4200, timestamp: 3000 });
+
+      expect(again).toBe(true);
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should re-arm when the target is reset', async () => {
+      await engine.handlePricePoint(product.id, { price: 3900, timestamp: 2000 }, { price: 4500, timestamp: 1000 });
+      await engine.resetTargetState(product.id);
+      const again = await engine.handlePricePoint(product.id, { price: 3900, timestamp: 3000 }, { price: 3900, timestamp: 2000 });
+
+      expect(again).toBe(true);
+    });
+
+    it('should compare the effective price when charts and alerts use it', async () => {
+      const point = { price: 4100, timestamp: 2000, pointMultiplier: 10 };
+      const raw = await engine.handlePricePoint(product.id, point, { price: 4500, timestamp: 1000 });
+      (chrome.storage.sync.get as any).mockResolvedValueOnce({ priceBasis: 'effective', basePointRate: 1 });
+
+      const effective = await engine.handlePricePoint(product.id, { ...point, timestamp: 3000 }, point);
+
+      expect(raw).toBe(false);
+      expect(effective).toBe(true);
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('all-time low alerts', () => {
+    beforeEach(() => {
+      mockStorageManager.getProduct.mockResolvedValue({
+        ...product,
+        alerts: { enabled: true, threshold: 0, type: 'both', belowAllTimeLow: true }
+      });
+      mockStorageManager.getPriceSeries = vi.fn().mockResolvedValue([
+        { price: 1200, timestamp: 1000 },
+        { price: 1000, timestamp: 2000 },
+        { price: 1100, timestamp: 3000 },
+        { price: 990, timestamp: 4000 }
+      ]);
+    });
+
+    it('should fire when the price goes below every earlier point', async () => {
+      const notified = await engine.handlePricePoint(product.id, { price: 990, timestamp: 4000 }, { price: 1100, timestamp: 3000 });
+
+      expect(notified).toBe(true);
+    });
+
+    it('should compare against the minimum of rolled-up weeks', async () => {
+      mockStorageManager.getPriceSeries.mockResolvedValue([
+        { price: 1000, timestamp: 500, min: 950, max: 1100, rolledUp: true },
+        { price: 1000, timestamp: 2000 },
+        { price: 990, timestamp: 4000 }
+      ]);
+
+      const notified = await engine.handlePricePoint(product.id, { price: 990, timestamp: 4000 }, { price: 1000, timestamp: 2000 });
+
+      expect(notified).toBe(false);
+    });
+
+    it('should not fire when the price only matches the low', async () => {
+      mockStorageManager.getPriceSeries.mockResolvedValue([
+        { price: 1000, timestamp: 2000 },
+        { price: 1000, timestamp: 4000 }
+      ]);
+
+      const notified = await engine.handlePricePoint(product.id, { price: 1000, timestamp: 4000 }, { price: 1000, timestamp: 2000 });
+
+      expect(notified).toBe(false);
+    });
+  });
+
+  describe('back-in-stock alerts', () => {
+    const stockProduct = {
+      ...product,
+      availability: 'out_of_stock',
+      alerts: { enabled: false, threshold: 0.1, type: 'both', notifyBackInStock: true }
+    };
+
+    beforeEach(() => {
+      mockStorageManager.getProduct.mockResolvedValue(stockProduct);
+    });
+
+    it('should fire when an out-of-stock product becomes available', async () => {
+      const notified = await engine.handlePricePoint(
+        product.id,
+        { price: 1000, timestamp: 2000, availability: 'available' },
+        { price: 1000, timestamp: 1000, availability: 'out_of_stock' }
+      );
+
+      expect(notified).toBe(true);
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fire for a backorder product that becomes available', async () => {
+      const notified = await engine.handlePricePoint(
+        product.id,
+        { price: 1000, timestamp: 2000, availability: 'available' },
+        { price: 1000, timestamp: 1000, availability: 'backorder' }
+      );
+
+      expect(notified).toBe(true);
+    });
+
+    it('should fall back to the product availability for older points', async () => {
+      const notified = await engine.handlePricePoint(
+        product.id,
+        { price: 1000, timestamp: 2000, availability: 'available' },
+        { price: 1000, timestamp: 1000 }
+      );
+
+      expect(notified).toBe(true);
+    });
+
+    it('should not fire when the toggle is off', async () => {
+      mockStorageManager.getProduct.mockResolvedValue({
+        ...stockProduct,
+        alerts: { ...stockProduct.alerts, notifyBackInStock: false }
+      });
+
+      const notified = await engine.handlePricePoint(
+        product.id,
+        { price: 1000, timestamp: 2000, availability: 'available' },
+        { price: 1000, timestamp: 1000, availability: 'out_of_stock' }
+      );
+
+      expect(notified).toBe(false);
+    });
+
+    it('should report a target reached on restock together with the restock', async () => {
+      mockStorageManager.getProduct.mockResolvedValue({
+        ...stockProduct,
+        alerts: { ...stockProduct.alerts, enabled: true, targetPrice: 1000 }
+      });
+      const restocked = { price: 1000, timestamp: 2000, availability: 'available' };
+
+      await engine.handlePricePoint(product.id, restocked, { price: 1000, timestamp: 1000, availability: 'out_of_stock' });
+      const later = await engine.handlePricePoint(product.id, { ...restocked, timestamp: 3000 }, restocked);
+
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+      expect(chrome.notifications.create).toHaveBeenCalledWith(
+        'price-alert:shop123_item456:2000',
+        expect.objectContaining({ title: 'backInStockAlertTitle', message: 'targetPriceReachedMessage' })
+      );
+      expect(later).toBe(false);
+    });
+
+    it('should not fire while the product stays available', async () => {
+      const notified = await engine.handlePricePoint(
+        product.id,
+        { price: 1000, timestamp: 2000, availability: 'available' },
+        { price: 1000, timestamp: 1000, availability: 'available' }
+      );
+
+      expect(notified).toBe(false);
+    });
+  });
+
+  it('should clear stored state for a product', async () => {
+    storedState = { [product.id]: { lastPointTimestamp: 2000 }, other: { lastPointTimestamp: 1 } };
+
+    await engine.clearAlertState(product.id);
+
+    expect(storedState).toEqual({ other: { lastPointTimestamp: 1 } });
+  });
+
+  it('should clear the state of a product\'s variants with it', async () => {
+    storedState = { [product.id]: {}, [`${product.id}#white/M`]: {}, other: {} };
+
+    await engine.clearAlertState(product.id);
+
+    expect(Object.keys(storedState)).toEqual(['other']);
+  });
+
+  describe('variant alerts', () => {
+    const variantKey = `${product.id}#white/M`;
+    const withVariant = (alerts?: Record<string, any>) => ({
+      ...product,
+      variants: {
+        'white/M': { id: 'white/M', label: 'ホワイト / M', price: 900, tracked: true, createdAt: 1, updatedAt: 1, alerts }
+      }
+    });
+
+    it('should name the variant and follow the product settings by default', async () => {
+      mockStorageManager.getProduct.mockResolvedValue(withVariant());
+
+      const notified = await engine.handlePricePoint(variantKey, { price: 700, timestamp: 2000 }, { price: 900, timestamp: 1000 });
+
+      expect(notified).toBe(true);
+      expect(mockStorageManager.getProduct).toHaveBeenCalledWith(product.id);
+      expect(chrome.notifications.create).toHaveBeenCalledWith(
+        `price-alert:${variantKey}:2000`,
+        expect.objectContaining({ contextMessage: 'Test Product (ホワイト / M)' })
+      );
+    });
+
+    it('should use the variant\'s own settings when it has them', async () => {
+      mockStorageManager.getProduct.mockResolvedValue(withVariant({ ...product.alerts, enabled: false }));
+
+      const notified = await engine.handlePricePoint(variantKey, { price: 700, timestamp: 2000 }, { price: 900, timestamp: 1000 });
+
+      expect(notified).toBe(false);
+    });
+
+    it('should ignore points for variants that are no longer listed', async () => {
+      const notified = await engine.handlePricePoint(variantKey, { price: 700, timestamp: 2000 }, { price: 900, timestamp: 1000 });
+
+      expect(notified).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { amazonAdapter } from '../../src/lib/sites/amazon.js';
+
+const html = readFileSync(resolve(__dirname, '../fixtures/sites/amazon-item.html'), 'utf-8');
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+describe('amazonAdapter', () => {
+  it('should identify products by ASIN whatever the url shape', () => {
+    const expected = { shopId: '', itemCode: 'B0ABCD1234' };
+
+    expect(amazonAdapter.parseProductUrl('https://www.amazon.co.jp/Sample-Earbuds/dp/B0ABCD1234/ref=sr_1_1?keywords=x'))
+      .toEqual(expected);
+    expect(amazonAdapter.parseProductUrl('https://www.amazon.co.jp/dp/b0abcd1234')).toEqual(expected);
+    expect(amazonAdapter.parseProductUrl('https://www.amazon.co.jp/gp/product/B0ABCD1234?th=1')).toEqual(expected);
+    expect(amazonAdapter.parseProductUrl('https://www.amazon.co.jp/s?k=earbuds')).toBeNull();
+  });
+
+  it('should extract product details from the live page', () => {
+    const doc = parseDocument(html);
+
+    expect(amazonAdapter.getTitle(doc)).toBe('ワイヤレスイヤホン ノイズキャンセリング');
+    // The list price is struck through next to the buy box price
+    expect(amazonAdapter.getPrice(doc)).toBe(12800);
+    expect(amazonAdapter.getAvailability(doc)).toBe('available');
+    expect(amazonAdapter.getSeller(doc, null)).toBe('サンプル販売店');
+  });
+
+  it('should tell temporary stockouts from unavailable products', () => {
+    expect(amazonAdapter.getAvailability(parseDocument('<div id="availability">一時的に在庫切れ；入荷時期は未定です。</div>')))
+      .toBe('backorder');
+    expect(amazonAdapter.getAvailability(parseDocument('<div id="availability">現在お取り扱いできません。</div>')))
+      .toBe('out_of_stock');
+  });
+
+  it('should parse a fetched page', () => {
+    expect(amazonAdapter.parsePage(html)).toEqual({
+      title: 'ワイヤレスイヤホン ノイズキャンセリング',
+      price: 12800,
+      availability: 'available'
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { BackgroundService } from '../../src/background/background-service.js';
+import { BackgroundService, PRICE_CHECK_ALARM, PRICE_CHECK_TICK_MINUTES } from '../../src/background/background-service.js';
+import { PROTOCOL_MISMATCH_ERROR, PROTOCOL_VERSION } from '../../src/lib/messages.js';
 
 describe('BackgroundService', () => {
   let service: BackgroundService;
@@ -13,17 +14,22 @@ describe('BackgroundService', () => {
       addProduct: vi.fn(),
       getAllProducts: vi.fn(),
       getProduct: vi.fn(),
+      findProductByUrl: vi.fn().mockResolvedValue(null),
       updateProduct: vi.fn(),
       deleteProduct: vi.fn(),
       getPriceHistory: vi.fn(),
+      getPriceSeries: vi.fn(),
+      getAllPriceSeries: vi.fn(),
       exportData: vi.fn(),
       importData: vi.fn(),
-      addPricePointIfNew: vi.fn()
+      addPricePointIfNew: vi.fn(),
+      updateObservedState: vi.fn()
     };
 
     // Reset Chrome API mocks - type assertion for mock functions
     (chrome.runtime.onMessage.addListener as any).mockClear();
     (chrome.webNavigation.onCompleted.addListener as any).mockClear();
+    (chrome.alarms.onAlarm.addListener as any).mockClear();
 
     service = new BackgroundService();
     // Inject mock storage manager
@@ -34,6 +40,94 @@ describe('BackgroundService', () => {
     it('should initialize with storage manager and set up event listeners', () => {
       expect(chrome.runtime.onMessage.addListener).toHaveBeenCalled();
       expect(chrome.webNavigation.onCompleted.addListener).toHaveBeenCalled();
+      expect(chrome.webNavigation.onHistoryStateUpdated.addListener).toHaveBeenCalled();
+      expect(chrome.alarms.onAlarm.addListener).toHaveBeenCalled();
+    });
+  });
+
+  describe('handleInstalled', () => {
+    it('should migrate storage on install and update', async () => {
+      mockStorageManager.migrateStorage = vi.fn().mockResolvedValue({ from: 1, to: 2, data: {} });
+
+      await service.handleInstalled({ reason: 'update' });
+
+      expect(chrome.runtime.onInstalled.addListener).toHaveBeenCalled();
+      expect(mockStorageManager.migrateStorage).toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduled price checks', () => {
+    let mockPriceChecker: any;
+
+    beforeEach(async () => {
+      // Let the scheduling started by the constructor finish first
+      await new Promise(resolve => setTimeout(resolve, 0));
+      mockPriceChecker = {
+        runChecks: vi.fn().mockResolvedValue({ checked: 1, updated: 1, failed: 0, skipped: 0 })
+      };
+      (service as any).priceChecker = mockPriceChecker;
+      (chrome.alarms.create as any).mockClear();
+      (chrome.alarms.clear as any).mockClear();
+    });
+
+    it('should register the alarm using the configured interval', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValue({ priceCheckInterval: 360 });
+
+      await service.schedulePriceChecks();
+
+      expect(chrome.alarms.clear).toHaveBeenCalledWith(PRICE_CHECK_ALARM);
+      expect(chrome.alarms.create).toHaveBeenCalledWith(PRICE_CHECK_ALARM, {
+        delayInMinutes: 1,
+        periodInMinutes: PRICE_CHECK_TICK_MINUTES
+      });
+    });
+
+    it('should not register the alarm when checks are turned off', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValue({ priceCheckInterval: 0 });
+
+      await service.schedulePriceChecks();
+
+      expect(chrome.alarms.clear).toHaveBeenCalledWith(PRICE_CHECK_ALARM);
+      expect(chrome.alarms.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave a running alarm alone when the worker starts again', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValue({ priceCheckInterval: 360 });
+      (chrome.alarms.get as any).mockResolvedValueOnce({ name: PRICE_CHECK_ALARM, periodInMinutes: PRICE_CHECK_TICK_MINUTES });
+
+      await service.ensurePriceChecks();
+
+      expect(chrome.alarms.clear).not.toHaveBeenCalled();
+      expect(chrome.alarms.create).not.toHaveBeenCalled();
+    });
+
+    it('should register the alarm when it is missing or its period changed', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValue({ priceCheckInterval: 15 });
+      (chrome.alarms.get as any).mockResolvedValueOnce(undefined);
+      (chrome.alarms.get as any).mockResolvedValueOnce({ name: PRICE_CHECK_ALARM, periodInMinutes: PRICE_CHECK_TICK_MINUTES });
+
+      await service.ensurePriceChecks();
+      await service.ensurePriceChecks();
+
+      expect(chrome.alarms.create).toHaveBeenCalledTimes(2);
+      expect(chrome.alarms.create).toHaveBeenCalledWith(PRICE_CHECK_ALARM, {
+        delayInMinutes: 1,
+        periodInMinutes: 15
+      });
+    });
+
+    it('should run checks when the price check alarm fires', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValue({ priceCheckInterval: 360 });
+
+      await service.handleAlarm({ name: PRICE_CHECK_ALARM });
+
+      expect(mockPriceChecker.runChecks).toHaveBeenCalledWith({ intervalMinutes: 360 });
+    });
+
+    it('should ignore unrelated alarms', async () => {
+      await service.handleAlarm({ name: 'other-alarm' });
+
+      expect(mockPriceChecker.runChecks).not.toHaveBeenCalled();
     });
   });
 
@@ -52,7 +146,7 @@ describe('BackgroundService', () => {
       mockStorageManager.addProduct.mockResolvedValue(result);
 
       const promise = service.handleMessage(
-        { action: 'TRACK_PRODUCT', data: productData },
+        { protocol: PROTOCOL_VERSION, action: 'TRACK_PRODUCT', data: productData },
         mockSender,
         mockSendResponse
       );
@@ -68,7 +162,7 @@ describe('BackgroundService', () => {
       mockStorageManager.getAllProducts.mockResolvedValue(products);
 
       await service.handleMessage(
-        { action: 'GET_PRODUCTS' },
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRODUCTS' },
         mockSender,
         mockSendResponse
       );
@@ -78,12 +172,12 @@ describe('BackgroundService', () => {
     });
 
     it('should handle UPDATE_PRODUCT action', async () => {
-      const updates = { price: 1500 };
-      const updatedProduct = { id: 'test123', price: 1500 };
+      const updates = { alerts: { threshold: 10 } };
+      const updatedProduct = { id: 'test123', alerts: { enabled: true, threshold: 10, type: 'both' } };
       mockStorageManager.updateProduct.mockResolvedValue(updatedProduct);
 
       await service.handleMessage(
-        { action: 'UPDATE_PRODUCT', productId: 'test123', updates },
+        { protocol: PROTOCOL_VERSION, action: 'UPDATE_PRODUCT', productId: 'test123', updates },
         mockSender,
         mockSendResponse
       );
@@ -92,16 +186,75 @@ describe('BackgroundService', () => {
       expect(mockSendResponse).toHaveBeenCalledWith({ success: true, data: updatedProduct });
     });
 
+    it('should re-arm target alerts when the target price changes', async () => {
+      const updates = { alerts: { targetPrice: 3980 } };
+      mockStorageManager.updateProduct.mockResolvedValue({ id: 'test123' });
+      const resetTargetState = vi.spyOn((service as any).alerts, 'resetTargetState').mockResolvedValue(undefined);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'UPDATE_PRODUCT', productId: 'test123', updates },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.updateProduct).toHaveBeenCalledWith('test123', updates);
+      expect(resetTargetState).toHaveBeenCalledWith('test123');
+    });
+
+    it('should reject an invalid target price', async () => {
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'UPDATE_PRODUCT', productId: 'test123', updates: { alerts: { targetPrice: -5 } } },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.updateProduct).not.toHaveBeenCalled();
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: false, error: 'Invalid target price' });
+    });
+
     it('should handle DELETE_PRODUCT action', async () => {
       mockStorageManager.deleteProduct.mockResolvedValue(undefined);
+      const clearAlertState = vi.spyOn((service as any).alerts, 'clearAlertState').mockResolvedValue(undefined);
 
       await service.handleMessage(
-        { action: 'DELETE_PRODUCT', productId: 'test123' },
+        { protocol: PROTOCOL_VERSION, action: 'DELETE_PRODUCT', productId: 'test123' },
         mockSender,
         mockSendResponse
       );
 
       expect(mockStorageManager.deleteProduct).toHaveBeenCalledWith('test123');
+      expect(clearAlertState).toHaveBeenCalledWith('test123');
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('should handle RESET_DATA action', async () => {
+      mockStorageManager.clearAllData = vi.fn().mockResolvedValue(undefined);
+      const clearAllAlertState = vi.spyOn((service as any).alerts, 'clearAllAlertState').mockResolvedValue(undefined);
+
+      await service.handleMessage({ protocol: PROTOCOL_VERSION, action: 'RESET_DATA' }, mockSender, mockSendResponse);
+
+      expect(mockStorageManager.clearAllData).toHaveBeenCalled();
+      expect(clearAllAlertState).toHaveBeenCalled();
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('should handle RECORD_EXTRACTION action', async () => {
+      const report = { url: 'https://item.rakuten.co.jp/shop/item/', siteId: 'rakuten', success: false, fields: {} };
+      (chrome.storage.local.get as any).mockResolvedValueOnce({});
+
+      await service.handleMessage({ protocol: PROTOCOL_VERSION, action: 'RECORD_EXTRACTION', report: report as any }, mockSender, mockSendResponse);
+
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({ extractionDiagnostics: [report] });
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('should handle SAVE_SNAPSHOT action', async () => {
+      const snapshot = { format: 1, url: 'https://item.rakuten.co.jp/shop/item/', capturedAt: 1000, html: '<html></html>' };
+      (chrome.storage.local.get as any).mockResolvedValueOnce({});
+
+      await service.handleMessage({ protocol: PROTOCOL_VERSION, action: 'SAVE_SNAPSHOT', snapshot: snapshot as any }, mockSender, mockSendResponse);
+
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({ pageSnapshots: [snapshot] });
       expect(mockSendResponse).toHaveBeenCalledWith({ success: true });
     });
 
@@ -110,7 +263,7 @@ describe('BackgroundService', () => {
       mockStorageManager.getPriceHistory.mockResolvedValue(history);
 
       await service.handleMessage(
-        { action: 'GET_PRICE_HISTORY', productId: 'test123' },
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRICE_HISTORY', productId: 'test123' },
         mockSender,
         mockSendResponse
       );
@@ -119,12 +272,132 @@ describe('BackgroundService', () => {
       expect(mockSendResponse).toHaveBeenCalledWith({ success: true, data: history });
     });
 
+    it('should handle GET_PRICE_SERIES action', async () => {
+      const series = [{ price: 900, timestamp: 1000, min: 800, max: 1000, rolledUp: true }];
+      mockStorageManager.getPriceSeries.mockResolvedValue(series);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRICE_SERIES', productId: 'test123' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.getPriceSeries).toHaveBeenCalledWith('test123');
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true, data: series });
+    });
+
+    it('should label points that fall inside a calendar campaign', async () => {
+      mockStorageManager.getPriceSeries.mockResolvedValue([
+        { price: 1000, timestamp: 1000 },
+        { price: 900, timestamp: 5000 }
+      ]);
+      (chrome.storage.local.get as any).mockResolvedValueOnce({
+        campaignCalendar: [{ name: 'お買い物マラソン', start: 4000, end: 6000 }]
+      });
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRICE_SERIES', productId: 'test123' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        success: true,
+        data: [
+          { price: 1000, timestamp: 1000 },
+          { price: 900, timestamp: 5000, campaign: 'お買い物マラソン' }
+        ]
+      });
+    });
+
+    it('should handle GET_PRICE_STATS action for one product', async () => {
+      mockStorageManager.getPriceSeries.mockResolvedValue([
+        { price: 1200, timestamp: 1000 },
+        { price: 900, timestamp: 2000 }
+      ]);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRICE_STATS', productId: 'test123' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({ currentPrice: 900, allTimeLow: 900, allTimeHigh: 1200, dealScore: 100 })
+      });
+    });
+
+    it('should compute stats on the effective price when configured', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValueOnce({ priceBasis: 'effective', basePointRate: 1 });
+      mockStorageManager.getPriceSeries.mockResolvedValue([
+        { price: 1000, timestamp: 1000, pointMultiplier: 1, shippingCost: 500 },
+        { price: 1100, timestamp: 2000, pointMultiplier: 10, shippingCost: 0 }
+      ]);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRICE_STATS', productId: 'test123' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({ currentPrice: 990, allTimeLow: 990, allTimeHigh: 1490 })
+      });
+    });
+
+    it('should handle GET_PRICE_STATS action for every product', async () => {
+      mockStorageManager.getAllPriceSeries.mockResolvedValue({
+        a: [{ price: 1000, timestamp: 1000 }],
+        b: []
+      });
+
+      await service.handleMessage({ protocol: PROTOCOL_VERSION, action: 'GET_PRICE_STATS' }, mockSender, mockSendResponse);
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        success: true,
+        data: { a: expect.objectContaining({ currentPrice: 1000 }), b: null }
+      });
+    });
+
+    it('should handle GET_PRODUCT_OVERVIEW action', async () => {
+      const product = { id: 'test123', title: 'Test', price: 900 };
+      const series = [{ price: 1000, timestamp: 1000 }, { price: 900, timestamp: 2000 }];
+      mockStorageManager.getProduct.mockResolvedValue(product);
+      mockStorageManager.getPriceSeries.mockResolvedValue(series);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRODUCT_OVERVIEW', productId: 'test123' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockSendResponse).toHaveBeenCalledWith({
+        success: true,
+        data: { product, series, stats: expect.objectContaining({ allTimeLow: 900 }) }
+      });
+    });
+
+    it('should return no overview for untracked products', async () => {
+      mockStorageManager.getProduct.mockResolvedValue(null);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRODUCT_OVERVIEW', productId: 'other' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true, data: null });
+      expect(mockStorageManager.getPriceSeries).not.toHaveBeenCalled();
+    });
+
     it('should handle EXPORT_DATA action', async () => {
       const exportData = { version: '1.0.0', products: {}, priceHistory: {} };
       mockStorageManager.exportData.mockResolvedValue(exportData);
 
       await service.handleMessage(
-        { action: 'EXPORT_DATA' },
+        { protocol: PROTOCOL_VERSION, action: 'EXPORT_DATA' },
         mockSender,
         mockSendResponse
       );
@@ -138,31 +411,90 @@ describe('BackgroundService', () => {
       mockStorageManager.importData.mockResolvedValue(importResult);
 
       await service.handleMessage(
-        { action: 'IMPORT_DATA', data: 'json-data' },
+        { protocol: PROTOCOL_VERSION, action: 'IMPORT_DATA', data: 'json-data' },
         mockSender,
         mockSendResponse
       );
 
-      expect(mockStorageManager.importData).toHaveBeenCalledWith('json-data');
+      expect(mockStorageManager.importData).toHaveBeenCalledWith('json-data', undefined);
       expect(mockSendResponse).toHaveBeenCalledWith(importResult);
     });
 
+    it('should handle PREVIEW_IMPORT action with a mode', async () => {
+      const previewResult = { success: true, count: 2, preview: { mode: 'addOnly', newCount: 2 } };
+      mockStorageManager.previewImport = vi.fn().mockResolvedValue(previewResult);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'PREVIEW_IMPORT', data: 'json-data', mode: 'addOnly' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.previewImport).toHaveBeenCalledWith('json-data', 'addOnly');
+      expect(mockSendResponse).toHaveBeenCalledWith(previewResult);
+    });
+
     it('should handle CHECK_AND_STORE_PRICE action', async () => {
       mockStorageManager.addPricePointIfNew.mockResolvedValue(true);
 
       await service.handleMessage(
-        { action: 'CHECK_AND_STORE_PRICE', productId: 'test123', price: 1500 } as any,
+        { protocol: PROTOCOL_VERSION, action: 'CHECK_AND_STORE_PRICE', productId: 'test123', price: 1500 } as any,
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.addPricePointIfNew).toHaveBeenCalledWith('test123', 1500, undefined, undefined);
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true, priceAdded: true });
+    });
+
+    it('should record availability with CHECK_AND_STORE_PRICE', async () => {
+      mockStorageManager.addPricePointIfNew.mockResolvedValue(true);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'CHECK_AND_STORE_PRICE', productId: 'test123', price: 1500, availability: 'out_of_stock' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.addPricePointIfNew).toHaveBeenCalledWith('test123', 1500, 'out_of_stock', undefined);
+      expect(mockStorageManager.updateObservedState).toHaveBeenCalledWith('test123', 1500, 'out_of_stock', undefined);
+    });
+
+    it('should record selected variants separately from the product', async () => {
+      mockStorageManager.recordVariantObservation = vi.fn().mockResolvedValue(true);
+      const variant = { id: 'white/M', label: 'ホワイト / M' };
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'CHECK_AND_STORE_PRICE', productId: 'test123', price: 1400, availability: 'available', variant },
         mockSender,
         mockSendResponse
       );
 
-      expect(mockStorageManager.addPricePointIfNew).toHaveBeenCalledWith('test123', 1500);
+      expect(mockStorageManager.recordVariantObservation).toHaveBeenCalledWith('test123', variant, 1400, 'available', undefined);
+      expect(mockStorageManager.addPricePointIfNew).not.toHaveBeenCalled();
+      expect(mockStorageManager.updateObservedState).not.toHaveBeenCalled();
       expect(mockSendResponse).toHaveBeenCalledWith({ success: true, priceAdded: true });
     });
 
+    it('should update variants and re-arm their target alerts', async () => {
+      const updated = { id: 'test123', variants: {} };
+      mockStorageManager.updateVariant = vi.fn().mockResolvedValue(updated);
+      const resetTargetState = vi.spyOn((service as any).alerts, 'resetTargetState').mockResolvedValue(undefined);
+
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'UPDATE_VARIANT', productId: 'test123', variantId: 'white/M', updates: { alerts: { targetPrice: 1200 } } },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.updateVariant).toHaveBeenCalledWith('test123', 'white/M', { alerts: { targetPrice: 1200 } });
+      expect(resetTargetState).toHaveBeenCalledWith('test123#white/M');
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: true, data: updated });
+    });
+
     it('should handle unknown action', async () => {
       await service.handleMessage(
-        { action: 'UNKNOWN_ACTION' },
+        { protocol: PROTOCOL_VERSION, action: 'UNKNOWN_ACTION' },
         mockSender,
         mockSendResponse
       );
@@ -170,11 +502,29 @@ describe('BackgroundService', () => {
       expect(mockSendResponse).toHaveBeenCalledWith({ success: false, error: 'Unknown action' });
     });
 
+    it('should turn away messages from an older protocol', async () => {
+      await service.handleMessage({ protocol: 0, action: 'GET_PRODUCTS' }, mockSender, mockSendResponse);
+
+      expect(mockStorageManager.getAllProducts).not.toHaveBeenCalled();
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: false, error: PROTOCOL_MISMATCH_ERROR });
+    });
+
+    it('should reject payloads that do not match the action', async () => {
+      await service.handleMessage(
+        { protocol: PROTOCOL_VERSION, action: 'CHECK_AND_STORE_PRICE', productId: 'test123', price: '1,500' },
+        mockSender,
+        mockSendResponse
+      );
+
+      expect(mockStorageManager.addPricePointIfNew).not.toHaveBeenCalled();
+      expect(mockSendResponse).toHaveBeenCalledWith({ success: false, error: 'Invalid price for CHECK_AND_STORE_PRICE' });
+    });
+
     it('should handle errors gracefully', async () => {
       mockStorageManager.getAllProducts.mockRejectedValue(new Error('Storage error'));
 
       await service.handleMessage(
-        { action: 'GET_PRODUCTS' },
+        { protocol: PROTOCOL_VERSION, action: 'GET_PRODUCTS' },
         mockSender,
         mockSendResponse
       );
@@ -184,11 +534,38 @@ describe('BackgroundService', () => {
   });
 
 
+  describe('handleNotificationClick', () => {
+    it('should open the product page for a price alert', async () => {
+      mockStorageManager.getProduct.mockResolvedValue({ id: 'shop123_item456', url: 'https://item.rakuten.co.jp/shop123/item456/' });
+
+      await service.handleNotificationClick('price-alert:shop123_item456:1700000000000');
+
+      expect(mockStorageManager.getProduct).toHaveBeenCalledWith('shop123_item456');
+      expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://item.rakuten.co.jp/shop123/item456/' });
+      expect(chrome.notifications.clear).toHaveBeenCalledWith('price-alert:shop123_item456:1700000000000');
+    });
+
+    it('should open the parent product for a variant alert', async () => {
+      mockStorageManager.getProduct.mockResolvedValue({ id: 'rakuten:shop_item', url: 'https://item.rakuten.co.jp/shop/item/' });
+
+      await service.handleNotificationClick('price-alert:rakuten:shop_item#white/M:1700000000000');
+
+      expect(mockStorageManager.getProduct).toHaveBeenCalledWith('rakuten:shop_item');
+      expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://item.rakuten.co.jp/shop/item/' });
+    });
+
+    it('should ignore unrelated notifications', async () => {
+      await service.handleNotificationClick('other');
+
+      expect(chrome.tabs.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('extractProductId', () => {
     it('should extract product ID from Rakuten URL', () => {
       const url = 'https://item.rakuten.co.jp/shop123/item456/';
       const result = service.extractProductId(url);
-      expect(result).toBe('shop123_item456');
+      expect(result).toBe('rakuten:shop123_item456');
     });
 
     it('should return null for invalid URL', () => {
@@ -260,6 +637,43 @@ describe('BackgroundService', () => {
 
       expect(chrome.action.setBadgeText).not.toHaveBeenCalled();
     });
+
+    it('should find products keyed by a catalogue code through their url', async () => {
+      mockStorageManager.getProduct.mockResolvedValue(null);
+      mockStorageManager.findProductByUrl.mockResolvedValue({ id: 'rakuten-books:9784000000001' });
+
+      await service.handleNavigation({ frameId: 0, url: 'https://books.rakuten.co.jp/rb/17654321/', tabId: 123 });
+
+      expect(mockStorageManager.findProductByUrl).toHaveBeenCalledWith('https://books.rakuten.co.jp/rb/17654321/');
+      expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ text: '★', tabId: 123 });
+    });
+  });
+
+  describe('handleHistoryStateUpdate', () => {
+    const details = { frameId: 0, url: 'https://item.rakuten.co.jp/shop123/item789/', tabId: 123 };
+
+    it('should reset the badge and tell the tab its url changed', async () => {
+      mockStorageManager.getProduct.mockResolvedValue(null);
+
+      await service.handleHistoryStateUpdate(details);
+
+      expect(chrome.action.setBadgeText).toHaveBeenCalledWith({ text: '', tabId: 123 });
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(123, { action: 'URL_CHANGED', url: details.url, protocol: PROTOCOL_VERSION });
+    });
+
+    it('should ignore other sites and sub-frames', async () => {
+      await service.handleHistoryStateUpdate({ ...details, url: 'https://example.com/page' });
+      await service.handleHistoryStateUpdate({ ...details, frameId: 1 });
+
+      expect(chrome.tabs.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should survive tabs without a content script', async () => {
+      mockStorageManager.getProduct.mockResolvedValue(null);
+      (chrome.tabs.sendMessage as any).mockRejectedValueOnce(new Error('Receiving end does not exist'));
+
+      await expect(service.handleHistoryStateUpdate(details)).resolves.toBeUndefined();
+    });
   });
 
 
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annotateCampaigns,
+  compareCampaignPrices,
+  detectCampaign,
+  findActiveCampaign,
+  mergeCampaigns,
+  parseCampaignCalendar
+} from '../../src/lib/campaigns.js';
+
+const marathon = { name: 'お買い物マラソン', start: 1000, end: 2000 };
+const superSale = { name: '楽天スーパーSALE', start: 5000, end: 6000 };
+
+describe('detectCampaign', () => {
+  it('should recognise recurring Rakuten sales from banner text', () => {
+    expect(detectCampaign('楽天スーパーSALE 開催中！')).toBe('楽天スーパーSALE');
+    expect(detectCampaign('お買い物マラソン エントリーでポイント最大11倍')).toBe('お買い物マラソン');
+    expect(detectCampaign('送料無料')).toBeNull();
+    expect(detectCampaign('お買い物マラソン 開催予告')).toBeNull();
+  });
+});
+
+describe('findActiveCampaign', () => {
+  it('should include both ends of a campaign', () => {
+    expect(findActiveCampaign([marathon, superSale], 1000)).toBe(marathon);
+    expect(findActiveCampaign([marathon, superSale], 2000)).toBe(marathon);
+    expect(findActiveCampaign([marathon, superSale], 3000)).toBeNull();
+  });
+});
+
+describe('parseCampaignCalendar', () => {
+  it('should accept ISO dates and epoch milliseconds', () => {
+    const campaigns = parseCampaignCalendar([
+      { name: ' 楽天スーパーSALE ', start: '2024-06-04T20:00:00+09:00', end: '2024-06-11T01:59:00+09:00' },
+      { name: 'お買い物マラソン', start: 1000, end: 2000 }
+    ]);
+
+    expect(campaigns).toEqual([
+      { name: '楽天スーパーSALE', start: Date.UTC(2024, 5, 4, 11), end: Date.UTC(2024, 5, 10, 16, 59) },
+      marathon
+    ]);
+    expect(parseCampaignCalendar({ campaigns: [marathon] })).toEqual([marathon]);
+  });
+
+  it('should reject malformed entries', () => {
+    expect(() => parseCampaignCalendar('nope')).toThrow('Campaign calendar must be a list of campaigns');
+    expect(() => parseCampaignCalendar([marathon, { name: 'x', start: 2000, end: 1000 }])).toThrow('Invalid campaign 1');
+    expect(() => parseCampaignCalendar([{ name: '', start: 1, end: 2 }])).toThrow('Invalid campaign 0');
+  });
+});
+
+describe('mergeCampaigns', () => {
+  it('should replace campaigns with the same name and start and keep them in order', () => {
+    const extended = { ...marathon, end: 2500 };
+
+    expect(mergeCampaigns([superSale, marathon], [extended])).toEqual([extended, superSale]);
+  });
+});
+
+describe('annotateCampaigns', () => {
+  it('should label points inside a campaign unless a banner already named one', () => {
+    const series = [
+      { price: 1000, timestamp: 1500 },
+      { price: 900, timestamp: 1600, campaign: 'ブラックフライデー' },
+      { price: 1100, timestamp: 3000 },
+      { price: 1000, timestamp: 1200, rolledUp: true, min: 900, max: 1100 }
+    ];
+
+    expect(annotateCampaigns(series, [marathon]).map(point => point.campaign)).toEqual([
+      'お買い物マラソン',
+      'ブラックフライデー',
+      undefined,
+      undefined
+    ]);
+  });
+});
+
+describe('compareCampaignPrices', () => {
+  it('should average prices per campaign and outside campaigns', () => {
+    const report = compareCampaignPrices([
+      { price: 1000, timestamp: 1, campaign: 'お買い物マラソン' },
+      { price: 800, timestamp: 2, campaign: 'お買い物マラソン' },
+      { price: 1200, timestamp: 3 },
+      { price: 1500, timestamp: 4, rolledUp: true }
+    ]);
+
+    expect(report).toEqual({
+      campaigns: [{ name: 'お買い物マラソン', average: 900, count: 2 }],
+      offCampaign: { average: 1200, count: 1 }
+    });
+  });
+
+  it('should report nothing outside campaigns when every point is in one', () => {
+    expect(compareCampaignPrices([{ price: 1000, timestamp: 1, campaign: 'x' }]).offCampaign).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { filterByRange, findExtremes, getPriceDomain } from '../../src/lib/chart-data.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = 1_700_000_000_000;
+
+const history = [
+  { price: 1200, timestamp: now - 200 * DAY },
+  { price: 900, timestamp: now - 60 * DAY },
+  { price: 1000, timestamp: now - 10 * DAY },
+  { price: 900, timestamp: now - 5 * DAY }
+];
+
+describe('filterByRange', () => {
+  it('should keep only points inside the range', () => {
+    expect(filterByRange(history, '30d', now).map(point => point.price)).toEqual([1000, 900]);
+    expect(filterByRange(history, '90d', now)).toHaveLength(3);
+    expect(filterByRange(history, '1y', now)).toHaveLength(4);
+  });
+
+  it('should return the full history sorted by time for all', () => {
+    const shuffled = [history[2], history[0], history[3], history[1]];
+
+    expect(filterByRange(shuffled, 'all', now)).toEqual(history);
+  });
+});
+
+describe('findExtremes', () => {
+  it('should return null for an empty history', () => {
+    expect(findExtremes([])).toBeNull();
+  });
+
+  it('should pick the earliest occurrence of the low and high', () => {
+    const extremes = findExtremes(history);
+
+    expect(extremes?.low).toEqual(history[1]);
+    expect(extremes?.high).toEqual(history[0]);
+  });
+
+  it('should use the range of rolled-up weeks', () => {
+    const extremes = findExtremes([
+      { price: 1000, timestamp: now - 400 * DAY, min: 700, max: 1500, rolledUp: true },
+      ...history
+    ]);
+
+    expect(extremes?.low).toEqual(expect.objectContaining({ price: 700, timestamp: now - 400 * DAY }));
+    expect(extremes?.high).toEqual(expect.objectContaining({ price: 1500, timestamp: now - 400 * DAY }));
+  });
+});
+
+describe('getPriceDomain', () => {
+  it('should pad the domain around the price range', () => {
+    const [min, max] = getPriceDomain(history);
+
+    expect(min).toBeLessThan(900);
+    expect(max).toBeGreaterThan(1200);
+  });
+
+  it('should give a flat history a non-empty domain', () => {
+    const [min, max] = getPriceDomain([{ price: 500, timestamp: now }]);
+
+    expect(max).toBeGreaterThan(min);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, toCsv, exportToCsv, csvToExportData, isProductsCsv, isRollupsCsv } from '../../src/lib/csv.js';
+import { validateImportData } from '../../src/lib/data-import.js';
+
+const exportData = {
+  version: '1.0.0',
+  exportDate: '2024-01-01T00:00:00.000Z',
+  products: {
+    shop_item: {
+      id: 'shop_item',
+      url: 'https://item.rakuten.co.jp/shop/item/',
+      title: 'Coffee "Special", 500g',
+      price: 1980,
+      shopId: 'shop',
+      itemCode: 'item',
+      availability: 'available',
+      createdAt: Date.UTC(2024, 0, 1),
+      updatedAt: Date.UTC(2024, 0, 2),
+      alerts: { enabled: true, threshold: 0.05, type: 'decrease' as const, targetPrice: 1500 }
+    }
+  },
+  priceHistory: {
+    shop_item: [
+      { price: 2200, timestamp: Date.UTC(2024, 0, 1) },
+      {
+        price: 1980,
+        timestamp: Date.UTC(2024, 0, 2),
+        availability: 'available',
+        lastSeenAt: Date.UTC(2024, 0, 3),
+        pointMultiplier: 5,
+        shippingCost: 0,
+        campaign: 'お買い物マラソン'
+      }
+    ]
+  }
+};
+
+describe('parseCsv', () => {
+  it('should handle quotes, escaped quotes and line breaks in cells', () => {
+    const rows = parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n');
+
+    expect(rows).toEqual([['a', 'b'], ['x, y', 'say "hi"\nthere']]);
+  });
+
+  it('should strip a byte order mark and skip blank lines', () => {
+    expect(parseCsv('﻿a,b\n\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('a\n"open')).toThrow('Unterminated quoted field in CSV');
+  });
+
+  it('should round-trip through toCsv', () => {
+    const rows = [['id', 'title'], ['1', 'Comma, "quote"']];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('exportToCsv', () => {
+  it('should write one product row and long-format history rows', () => {
+    const csv = exportToCsv(exportData);
+
+    expect(parseCsv(csv.products)[1].slice(0, 4)).toEqual([
+      'shop_item',
+      'https://item.rakuten.co.jp/shop/item/',
+      'Coffee "Special", 500g',
+      '1980'
+    ]);
+    expect(parseCsv(csv.priceHistory)).toEqual([
+      ['productId', 'timestamp', 'price', 'availability', 'lastSeenAt', 'pointMultiplier', 'shippingCost', 'campaign'],
+      ['shop_item', '2024-01-01T00:00:00.000Z', '2200', '', '', '', '', ''],
+      ['shop_item', '2024-01-02T00:00:00.000Z', '1980', 'available', '2024-01-03T00:00:00.000Z', '5', '0', 'お買い物マラソン']
+    ]);
+  });
+});
+
+describe('csvToExportData', () => {
+  it('should map CSV rows back into products and price points', () => {
+    const csv = exportToCsv(exportData);
+
+    const data = csvToExportData(csv.products, csv.priceHistory);
+
+    expect(data.products.shop_item).toEqual(expect.objectContaining({
+      title: 'Coffee "Special", 500g',
+      price: 1980,
+      createdAt: Date.UTC(2024, 0, 1),
+      alerts: { enabled: true, threshold: 0.05, type: 'decrease', targetPrice: 1500 }
+    }));
+    expect(data.priceHistory.shop_item).toEqual(exportData.priceHistory.shop_item);
+  });
+
+  it('should round-trip variants and their price history', () => {
+    const variant = { id: 'red', label: 'Red', price: 1880, tracked: true, createdAt: 1, updatedAt: 2 };
+    const withVariant = {
+      ...exportData,
+      products: {
+        shop_item: { ...exportData.products.shop_item, variants: { red: { ...variant, historySummary: { latestPrice: 1880 } as any } } }
+      },
+      priceHistory: { ...exportData.priceHistory, 'shop_item#red': [{ price: 1880, timestamp: Date.UTC(2024, 0, 2) }] }
+    };
+    const csv = exportToCsv(withVariant);
+
+    const imported = validateImportData(csvToExportData(csv.products, csv.priceHistory));
+
+    expect(imported.products['rakuten:shop_item'].variants).toEqual({ red: variant });
+    expect(imported.priceHistory['rakuten:shop_item#red']).toEqual([{ price: 1880, timestamp: Date.UTC(2024, 0, 2) }]);
+  });
+
+  it('should round-trip weekly summaries', () => {
+    const week = { weekStart: Date.UTC(2023, 0, 2), min: 1800, max: 2400, average: 2100, count: 12 };
+    const csv = exportToCsv({ ...exportData, priceRollups: { shop_item: [week] } });
+
+    const imported = validateImportData(csvToExportData(csv.products, csv.priceHistory, csv.priceRollups));
+
+    expect(imported.priceRollups!['rakuten:shop_item']).toEqual([week]);
+  });
+
+  it('should leave out the history of untracked pages so the export imports again', () => {
+    const week = { weekStart: Date.UTC(2023, 0, 2), min: 1800, max: 2400, average: 2100, count: 12 };
+    const csv = exportToCsv({
+      ...exportData,
+      priceHistory: { ...exportData.priceHistory, untracked_page: [{ price: 500, timestamp: Date.UTC(2024, 0, 2) }] },
+      priceRollups: { untracked_page: [week] }
+    });
+
+    const imported = validateImportData(csvToExportData(csv.products, csv.priceHistory, csv.priceRollups));
+
+    expect(Object.keys(imported.priceHistory)).toEqual(['rakuten:shop_item']);
+    expect(imported.priceHistory['rakuten:shop_item']).toEqual(exportData.priceHistory.shop_item);
+  });
+
+  it('should accept numeric timestamps', () => {
+    const data = csvToExportData(
+      'id,url,title,price\na,https://item.rakuten.co.jp/shop/a/,A,100\n',
+      'productId,timestamp,price\na,1700000000000,100\n'
+    );
+
+    expect(data.priceHistory.a).toEqual([{ price: 100, timestamp: 1700000000000 }]);
+  });
+
+  it('should require the product columns', () => {
+    expect(() => csvToExportData('id,title\na,A\n')).toThrow('Missing column url in products CSV');
+  });
+
+  it('should reject history for products not in the file', () => {
+    expect(() => csvToExportData(
+      'id,url,title,price\na,https://item.rakuten.co.jp/shop/a/,A,100\n',
+      'productId,timestamp,price\nb,1700000000000,100\n'
+    )).toThrow('Price history references unknown product b');
+  });
+
+  it('should leave bad values for import validation to reject', () => {
+    const data = csvToExportData(
+      'id,url,title,price\na,https://item.rakuten.co.jp/shop/a/,A,100\n',
+      'productId,timestamp,price\na,yesterday,100\n'
+    );
+
+    expect(() => validateImportData(data)).toThrow('Invalid price point 0 for product rakuten:a');
+  });
+
+  it('should leave bad alert and date cells for import validation to reject', () => {
+    const products = (columns: string, values: string) =>
+      csvToExportData(`id,url,title,price,${columns}\na,https://item.rakuten.co.jp/shop/a/,A,100,${values}\n`);
+
+    expect(() => validateImportData(products('alertThreshold', 'abc'))).toThrow('Product rakuten:a has invalid alert settings');
+    expect(() => validateImportData(products('alertType', 'sideways'))).toThrow('Product rakuten:a has invalid alert settings');
+    expect(() => validateImportData(products('createdAt', 'last week'))).toThrow('Product rakuten:a has invalid timestamps');
+  });
+});
+
+describe('isProductsCsv', () => {
+  it('should tell the products file from the history file', () => {
+    const csv = exportToCsv(exportData);
+
+    expect(isProductsCsv(csv.products)).toBe(true);
+    expect(isProductsCsv(csv.priceHistory)).toBe(false);
+    expect(isRollupsCsv(csv.priceRollups)).toBe(true);
+    expect(isRollupsCsv(csv.priceHistory)).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateImportData,
+  mergePriceHistories,
+  mergeRollups,
+  planImport
+} from '../../src/lib/data-import.js';
+import { CURRENT_SCHEMA_VERSION } from '../../src/lib/migrations.js';
+
+// Exports without a schemaVersion are migrated as legacy data
+const current = { version: '1.0.0', schemaVersion: CURRENT_SCHEMA_VERSION };
+
+const product = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  url: `https://item.rakuten.co.jp/shop/${id}/`,
+  title: `Product ${id}`,
+  price: 1000,
+  shopId: 'shop',
+  itemCode: id,
+  createdAt: 1000,
+  updatedAt: 1000,
+  alerts: { enabled: false, threshold: 0.1, type: 'both' as const },
+  ...overrides
+});
+
+describe('validateImportData', () => {
+  it('should accept a valid export', () => {
+    const data = validateImportData({
+      ...current,
+      products: { a: product('a') },
+      priceHistory: { a: [{ price: 1000, timestamp: 1000 }] }
+    });
+
+    expect(data.products.a.title).toBe('Product a');
+    expect(data.priceHistory.a).toHaveLength(1);
+  });
+
+  it('should fill in missing alert settings', () => {
+    const { alerts, ...withoutAlerts } = product('a');
+
+    const data = validateImportData({ version: '1.0.0', products: { a: withoutAlerts } });
+
+    expect(data.products['rakuten:a'].alerts).toEqual({ enabled: false, threshold: 0.1, type: 'both' });
+    expect(data.priceHistory['rakuten:a']).toEqual([]);
+  });
+
+  it('should reject files without products', () => {
+    expect(() => validateImportData({ ...current })).toThrow('Invalid import format');
+  });
+
+  it('should reject products with missing or invalid fields', () => {
+    expect(() => validateImportData({ ...current, products: { a: product('a', { url: '' }) } }))
+      .toThrow('Product a is missing a url');
+    expect(() => validateImportData({ ...current, products: { a: product('a', { price: 'free' }) } }))
+      .toThrow('Product a has an invalid price');
+    expect(() => validateImportData({ ...current, products: { a: product('b') } }))
+      .toThrow('Product a has mismatched id');
+  });
+
+  it('should check each alert setting and both timestamps', () => {
+    const withAlerts = (alerts: Record<string, unknown>) =>
+      () => validateImportData({ ...current, products: { a: product('a', { alerts }) } });
+
+    expect(withAlerts({ threshold: 'abc' })).toThrow('Product a has invalid alert settings');
+    expect(withAlerts({ type: 'bogus' })).toThrow('Product a has invalid alert settings');
+    expect(withAlerts({ enabled: 'yes' })).toThrow('Product a has invalid alert settings');
+    expect(withAlerts({ targetPrice: 0 })).toThrow('Product a has invalid alert settings');
+    expect(withAlerts({ targetPrice: null, notifyBackInStock: true })).not.toThrow();
+    expect(() => validateImportData({ ...current, products: { a: product('a', { createdAt: '2024-01-01' }) } }))
+      .toThrow('Product a has invalid timestamps');
+    expect(() => validateImportData({ ...current, products: { a: product('a', { updatedAt: undefined }) } }))
+      .toThrow('Product a has invalid timestamps');
+  });
+
+  it('should reject invalid price points', () => {
+    expect(() => validateImportData({
+      ...current,
+      products: { a: product('a') },
+      priceHistory: { a: [{ price: 1000, timestamp: 1000 }, { price: -1, timestamp: 2000 }] }
+    })).toThrow('Invalid price point 1 for product a');
+  });
+
+  it('should validate weekly rollups', () => {
+    const week = { weekStart: 1000, min: 900, max: 1100, average: 1000, count: 3 };
+
+    const data = validateImportData({ ...current, products: { a: product('a') }, priceRollups: { a: [week] } });
+
+    expect(data.priceRollups?.a).toEqual([week]);
+    expect(() => validateImportData({
+      ...current,
+      products: { a: product('a') },
+      priceRollups: { a: [{ ...week, min: 1200 }] }
+    })).toThrow('Invalid weekly rollup 0 for product a');
+  });
+
+  it('should keep the price history of product variants', () => {
+    const variant = { id: 'white/M', label: 'ホワイト / M', price: 900, tracked: true, createdAt: 1, updatedAt: 1 };
+    const data = validateImportData({
+      ...current,
+      products: { a: product('a', { variants: { 'white/M': variant } }) },
+      priceHistory: { a: [], 'a#white/M': [{ price: 900, timestamp: 1000 }], stray: [{ price: 1, timestamp: 1 }] }
+    });
+
+    expect(data.priceHistory['a#white/M']).toEqual([{ price: 900, timestamp: 1000 }]);
+    expect(data.priceHistory.stray).toBeUndefined();
+    expect(() => validateImportData({
+      ...current,
+      products: { a: product('a', { variants: { 'white/M': { ...variant, price: -1 } } }) }
+    })).toThrow('Product a has an invalid variant white/M');
+  });
+});
+
+describe('mergePriceHistories', () => {
+  it('should drop duplicate points and sort by time', () => {
+    const merged = mergePriceHistories(
+      [{ price: 900, timestamp: 2000 }, { price: 1000, timestamp: 1000 }],
+      [{ price: 950, timestamp: 2000 }, { price: 800, timestamp: 3000 }]
+    );
+
+    expect(merged).toEqual([
+      { price: 1000, timestamp: 1000 },
+      { price: 900, timestamp: 2000 },
+      { price: 800, timestamp: 3000 }
+    ]);
+  });
+});
+
+describe('mergeRollups', () => {
+  it('should keep the local copy of a week present in both', () => {
+    const local = { weekStart: 2000, min: 900, max: 900, average: 900, count: 1 };
+    const incoming = { weekStart: 1000, min: 800, max: 800, average: 800, count: 1 };
+
+    expect(mergeRollups([local], [incoming, { ...local, min: 100 }])).toEqual([incoming, local]);
+  });
+});
+
+describe('planImport', () => {
+  const current = {
+    products: {
+      same: product('same'),
+      extra: product('extra'),
+      edited: product('edited', { alerts: { enabled: true, threshold: 0.1, type: 'both' } })
+    },
+    priceHistory: {
+      same: [{ price: 1000, timestamp: 1000 }],
+      extra: [{ price: 1000, timestamp: 1000 }],
+      edited: [{ price: 1000, timestamp: 1000 }]
+    }
+  };
+
+  const incoming = {
+    version: '1.0.0',
+    exportDate: '',
+    products: {
+      same: product('same'),
+      extra: product('extra'),
+      edited: product('edited', { updatedAt: 5000 }),
+      fresh: product('fresh')
+    },
+    priceHistory: {
+      same: [{ price: 1000, timestamp: 1000 }],
+      extra: [{ price: 1000, timestamp: 1000 }, { price: 900, timestamp: 2000 }],
+      edited: [],
+      fresh: [{ price: 1000, timestamp: 1000 }]
+    }
+  };
+
+  it('should report new, updated and conflicting products when merging', () => {
+    const plan = planImport(current, incoming, 'merge');
+
+    expect(plan.preview).toEqual({
+      mode: 'merge',
+      newCount: 1,
+      updatedCount: 1,
+      conflictCount: 1,
+      unchangedCount: 1,
+      removedCount: 0
+    });
+    expect(plan.priceHistory.extra).toHaveLength(2);
+    // The imported record is newer, so it wins the conflict
+    expect(plan.products.edited.alerts.enabled).toBe(false);
+  });
+
+  it('should keep local variants and alert fields the newer record lacks', () => {
+    const variants = { red: { id: 'red', label: 'Red', price: 900, tracked: true, createdAt: 1, updatedAt: 1 } };
+    const local = product('edited', { variants, alerts: { enabled: true, threshold: 0.1, type: 'both', targetPrice: 800 } });
+
+    const plan = planImport({ ...current, products: { ...current.products, edited: local } }, incoming, 'merge');
+
+    expect(plan.products.edited.updatedAt).toBe(5000);
+    expect(plan.products.edited.variants).toEqual(variants);
+    expect(plan.products.edited.alerts).toEqual({ enabled: false, threshold: 0.1, type: 'both', targetPrice: 800 });
+  });
+
+  it('should keep the local record when it is newer', () => {
+    const plan = planImport(current, {
+      ...incoming,
+      products: { ...incoming.products, edited: product('edited', { updatedAt: 500 }) }
+    }, 'merge');
+
+    expect(plan.products.edited.alerts.enabled).toBe(true);
+  });
+
+  it('should leave existing products untouched in add-only mode', () => {
+    const plan = planImport(current, incoming, 'addOnly');
+
+    expect(plan.preview.newCount).toBe(1);
+    expect(plan.preview.conflictCount).toBe(1);
+    expect(plan.appliedCount).toBe(1);
+    expect(plan.priceHistory.extra).toHaveLength(1);
+    expect(plan.products.fresh).toBeDefined();
+  });
+
+  it('should report removed products when replacing', () => {
+    const plan = planImport(current, {
+      ...incoming,
+      products: { fresh: incoming.products.fresh },
+      priceHistory: { fresh: incoming.priceHistory.fresh }
+    }, 'replace');
+
+    expect(plan.preview.removedCount).toBe(3);
+    expect(Object.keys(plan.products)).toEqual(['fresh']);
+  });
+
+  it('should keep local weekly summaries the file does not carry when replacing', () => {
+    const week = { weekStart: 1000, min: 900, max: 1100, average: 1000, count: 7 };
+    const plan = planImport({ ...current, priceRollups: { same: [week] } }, incoming, 'replace');
+
+    expect(plan.priceRollups.same).toEqual([week]);
+    expect(plan.priceRollups.fresh).toEqual([]);
+  });
+
+  it('should merge variant histories along with the product', () => {
+    const variants = { 'white/M': { id: 'white/M', label: 'ホワイト / M', price: 900, tracked: true, createdAt: 1, updatedAt: 1 } };
+    const plan = planImport({
+      products: { same: product('same', { variants }) },
+      priceHistory: { same: [{ price: 1000, timestamp: 1000 }], 'same#white/M': [{ price: 900, timestamp: 1000 }] }
+    }, {
+      ...incoming,
+      products: { same: product('same', { variants }) },
+      priceHistory: { same: [{ price: 1000, timestamp: 1000 }], 'same#white/M': [{ price: 800, timestamp: 2000 }] }
+    }, 'merge');
+
+    expect(plan.preview.updatedCount).toBe(1);
+    expect(plan.priceHistory['same#white/M'].map(point => point.price)).toEqual([900, 800]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DIAGNOSTICS_KEY,
+  MAX_DIAGNOSTIC_REPORTS,
+  clearExtractionReports,
+  createExtractionReport,
+  saveExtractionReport,
+  summarizeBySite,
+  type ExtractionInput,
+  type ExtractionReport
+} from '../../src/lib/diagnostics.js';
+
+const input = (overrides: Partial<ExtractionInput> = {}): ExtractionInput => ({
+  url: 'https://item.rakuten.co.jp/shop123/item456/',
+  siteId: 'rakuten',
+  detection: 'immediate',
+  values: { title: 'Test Product', price: 1980, availability: 'available', seller: 'shop123' },
+  sources: { title: 'json-ld', price: 'selector', availability: 'selector' },
+  matches: {
+    title: [{ selector: 'h1', valid: true, text: 'Test Product' }],
+    price: [
+      { selector: '.price--new', valid: true, text: null },
+      { selector: '.price2', valid: true, text: '1,980円' }
+    ],
+    availability: [],
+    seller: [{ selector: '.shop_name', valid: true, text: null }]
+  },
+  timestamp: 1000,
+  ...overrides
+});
+
+const report = (siteId: ExtractionReport['siteId'], success: boolean, timestamp: number, confidence = 1): ExtractionReport => ({
+  ...createExtractionReport(input({ siteId, timestamp })),
+  success,
+  confidence
+});
+
+describe('createExtractionReport', () => {
+  it('should record which source and selector produced each field', () => {
+    const { fields, success } = createExtractionReport(input());
+
+    expect(fields.title).toEqual({ source: 'json-ld', selector: null, rawText: null, value: 'Test Product' });
+    expect(fields.price).toEqual({ source: 'selector', selector: '.price2', rawText: '1,980円', value: 1980 });
+    // Stock read from the cart buttons and a seller taken from the URL match no listed selector
+    expect(fields.availability.source).toBe('fallback');
+    expect(fields.seller).toEqual({ source: 'fallback', selector: null, rawText: null, value: 'shop123' });
+    expect(success).toBe(true);
+  });
+
+  it('should weigh confidence by field and source', () => {
+    // title 0.3 + price 0.4 × 0.8 + (availability + seller) 0.15 × 0.5 each
+    expect(createExtractionReport(input()).confidence).toBe(0.77);
+  });
+
+  it('should fail pages without a title or price', () => {
+    const failed = createExtractionReport(input({
+      detection: 'none',
+      values: { title: null, price: null, availability: 'unknown', seller: null }
+    }));
+
+    expect(failed.success).toBe(false);
+    expect(failed.confidence).toBe(0);
+    expect(failed.fields.availability).toEqual({ source: null, selector: null, rawText: null, value: null });
+  });
+});
+
+describe('summarizeBySite', () => {
+  it('should compute failure rates per site', () => {
+    const summary = summarizeBySite([
+      report('rakuten', false, 3000, 0.5),
+      report('rakuten', true, 2000),
+      report('rakuten', false, 1000, 0),
+      report('amazon', true, 500)
+    ]);
+
+    expect(summary).toEqual([
+      { siteId: 'rakuten', pages: 3, failures: 2, failureRate: 2 / 3, averageConfidence: 0.5, lastFailureAt: 3000 },
+      { siteId: 'amazon', pages: 1, failures: 0, failureRate: 0, averageConfidence: 1, lastFailureAt: null }
+    ]);
+  });
+});
+
+describe('extraction report storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should keep the newest reports first and cap them', async () => {
+    const older = Array.from({ length: MAX_DIAGNOSTIC_REPORTS }, (_, index) => report('rakuten', true, index));
+    const newest = report('yahoo', false, 9999);
+    (chrome.storage.local.get as any).mockResolvedValueOnce({ [DIAGNOSTICS_KEY]: older });
+
+    await saveExtractionReport(newest);
+
+    const saved = (chrome.storage.local.set as any).mock.calls[0][0][DIAGNOSTICS_KEY];
+    expect(saved).toHaveLength(MAX_DIAGNOSTIC_REPORTS);
+    expect(saved[0]).toBe(newest);
+    expect(saved[MAX_DIAGNOSTIC_REPORTS - 1]).toBe(older[MAX_DIAGNOSTIC_REPORTS - 2]);
+  });
+
+  it('should clear stored reports', async () => {
+    await clearExtractionReports();
+
+    expect(chrome.storage.local.remove).toHaveBeenCalledWith(DIAGNOSTICS_KEY);
+  });
+});
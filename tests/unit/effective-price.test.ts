@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEffectivePrice,
+  getPointsEarned,
+  haveExtrasChanged,
+  pickPriceExtras,
+  seriesToPriceBasis,
+  toPriceBasis
+} from '../../src/lib/effective-price.js';
+
+const effective = { basis: 'effective' as const, basePointRate: 1 };
+
+describe('getEffectivePrice', () => {
+  it('should add shipping and take off the points earned', () => {
+    expect(getPointsEarned(2980, 5, 1)).toBe(149);
+    expect(getEffectivePrice(2980, { pointMultiplier: 5, shippingCost: 550 }, 1)).toBe(3381);
+  });
+
+  it('should leave the price alone when nothing extra is known', () => {
+    expect(getEffectivePrice(2980, {}, 1)).toBe(2980);
+    expect(getEffectivePrice(2980, { shippingCost: 0 }, 1)).toBe(2980);
+  });
+
+  it('should follow the base point rate', () => {
+    expect(getEffectivePrice(1000, { pointMultiplier: 2 }, 0.5)).toBe(990);
+  });
+});
+
+describe('price extras', () => {
+  it('should keep only the extras that were found', () => {
+    expect(pickPriceExtras({ pointMultiplier: 3, shippingCost: undefined })).toEqual({ pointMultiplier: 3 });
+  });
+
+  it('should only count observed extras as changes', () => {
+    expect(haveExtrasChanged({ pointMultiplier: 1 }, { pointMultiplier: 10 })).toBe(true);
+    expect(haveExtrasChanged({ pointMultiplier: 1, shippingCost: 0 }, { shippingCost: 0 })).toBe(false);
+    expect(haveExtrasChanged({ pointMultiplier: 1 }, {})).toBe(false);
+  });
+});
+
+describe('seriesToPriceBasis', () => {
+  const series = [
+    { price: 1200, timestamp: 1, min: 1000, max: 1400, rolledUp: true },
+    { price: 1000, timestamp: 2, pointMultiplier: 10, shippingCost: 0 }
+  ];
+
+  it('should return raw series untouched', () => {
+    expect(seriesToPriceBasis(series, { basis: 'raw', basePointRate: 1 })).toBe(series);
+  });
+
+  it('should convert points that carry extras and leave out rolled-up weeks', () => {
+    const converted = seriesToPriceBasis(series, effective);
+
+    expect(converted).toEqual([{ ...series[1], price: 900 }]);
+    expect(toPriceBasis(series[1], effective).price).toBe(900);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildSparklinePoints, createHistoryPanel, getChangeSinceStart } from '../../src/content/history-overlay.js';
+
+const series = [
+  { price: 1200, timestamp: 3000 },
+  { price: 1000, timestamp: 1000 },
+  { price: 800, timestamp: 2000 }
+];
+
+describe('buildSparklinePoints', () => {
+  it('should scale points into the box with the highest price at the top', () => {
+    expect(buildSparklinePoints(series, 100, 20)).toBe('0.0,10.0 50.0,18.0 100.0,2.0');
+  });
+
+  it('should center a flat or single-point series', () => {
+    expect(buildSparklinePoints([{ price: 500, timestamp: 1 }], 100, 20)).toBe('50.0,10.0');
+    expect(buildSparklinePoints([], 100, 20)).toBe('');
+  });
+});
+
+describe('getChangeSinceStart', () => {
+  it('should compare the latest price with the first recorded one', () => {
+    expect(getChangeSinceStart(series)).toEqual({ amount: 200, percent: 20 });
+  });
+
+  it('should need at least two points', () => {
+    expect(getChangeSinceStart([{ price: 500, timestamp: 1 }])).toBeNull();
+  });
+});
+
+describe('createHistoryPanel', () => {
+  const product = {
+    id: 'shop_item',
+    url: 'https://item.rakuten.co.jp/shop/item/',
+    title: 'Test',
+    price: 1200,
+    shopId: 'shop',
+    itemCode: 'item',
+    createdAt: 1000,
+    updatedAt: 3000,
+    alerts: { enabled: false, threshold: 0.1, type: 'both' as const }
+  };
+
+  it('should show the low and the change since tracking began', () => {
+    const panel = createHistoryPanel(
+      { product, series, stats: { allTimeLow: 800, allTimeLowAt: 2000 } as any },
+      key => key
+    );
+
+    expect(panel.querySelector('polyline')).not.toBeNull();
+    expect(panel.textContent).toContain('¥800');
+    expect(panel.textContent).toContain('+¥200 (+20.0%)');
+  });
+
+  it('should date the low in the chosen language', () => {
+    const lowAt = Date.UTC(2024, 0, 15, 12);
+    const overview = { product, series, stats: { allTimeLow: 800, allTimeLowAt: lowAt } as any };
+
+    expect(createHistoryPanel(overview, key => key, 'en').textContent).toContain('(Jan 15, 2024)');
+    expect(createHistoryPanel(overview, key => key, 'ja').textContent).toContain('(2024年1月15日)');
+  });
+
+  it('should explain when there is not enough history to draw', () => {
+    const panel = createHistoryPanel({ product, series: [series[0]], stats: null }, key => key);
+
+    expect(panel.querySelector('svg')).toBeNull();
+    expect(panel.textContent).toContain('notEnoughHistory');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PROTOCOL_MISMATCH_ERROR,
+  PROTOCOL_VERSION,
+  sendMessage,
+  sendTabMessage,
+  validateBackgroundRequest,
+  validateContentRequest
+} from '../../src/lib/messages.js';
+
+describe('validateBackgroundRequest', () => {
+  it('should accept well-formed requests', () => {
+    const message = { protocol: PROTOCOL_VERSION, action: 'CHECK_AND_STORE_PRICE', productId: 'rakuten:shop_item', price: 1500 };
+
+    expect(validateBackgroundRequest(message)).toBe(message);
+  });
+
+  it('should reject requests from another protocol version', () => {
+    expect(() => validateBackgroundRequest({ action: 'GET_PRODUCTS' })).toThrow(PROTOCOL_MISMATCH_ERROR);
+    expect(() => validateBackgroundRequest({ protocol: PROTOCOL_VERSION + 1, action: 'GET_PRODUCTS' })).toThrow(PROTOCOL_MISMATCH_ERROR);
+  });
+
+  it('should reject malformed and unknown messages', () => {
+    expect(() => validateBackgroundRequest(null)).toThrow('Malformed message');
+    expect(() => validateBackgroundRequest({ protocol: PROTOCOL_VERSION, action: 'toString' })).toThrow('Unknown action');
+  });
+
+  it('should name the field that fails validation', () => {
+    expect(() => validateBackgroundRequest({ protocol: PROTOCOL_VERSION, action: 'DELETE_PRODUCT', productId: '' }))
+      .toThrow('Invalid productId for DELETE_PRODUCT');
+    expect(() => validateBackgroundRequest({ protocol: PROTOCOL_VERSION, action: 'IMPORT_DATA', data: '{}', mode: 'everything' }))
+      .toThrow('Invalid mode for IMPORT_DATA');
+    expect(() => validateBackgroundRequest({ protocol: PROTOCOL_VERSION, action: 'TRACK_PRODUCT', data: { url: 'https://item.rakuten.co.jp/' } }))
+      .toThrow('Invalid data for TRACK_PRODUCT');
+  });
+
+  it('should only accept alert and tracking updates of the right type', () => {
+    const update = (action: string, updates: unknown) =>
+      () => validateBackgroundRequest({ protocol: PROTOCOL_VERSION, action, productId: 'rakuten:shop_item', variantId: 'red', updates });
+
+    expect(update('UPDATE_PRODUCT', { alerts: { enabled: true, targetPrice: null, type: 'decrease' } })).not.toThrow();
+    expect(update('UPDATE_VARIANT', { tracked: false, alerts: null })).not.toThrow();
+
+    expect(update('UPDATE_PRODUCT', { id: 'rakuten:other' })).toThrow('Invalid updates for UPDATE_PRODUCT');
+    expect(update('UPDATE_PRODUCT', { alerts: { threshold: '5' } })).toThrow('Invalid updates for UPDATE_PRODUCT');
+    expect(update('UPDATE_PRODUCT', { alerts: { type: 'sideways' } })).toThrow('Invalid updates for UPDATE_PRODUCT');
+    expect(update('UPDATE_VARIANT', { createdAt: 0 })).toThrow('Invalid updates for UPDATE_VARIANT');
+    expect(update('UPDATE_VARIANT', { tracked: 'yes' })).toThrow('Invalid updates for UPDATE_VARIANT');
+  });
+});
+
+describe('validateContentRequest', () => {
+  it('should check the fields of content script requests', () => {
+    expect(validateContentRequest({ protocol: PROTOCOL_VERSION, action: 'URL_CHANGED', url: 'https://item.rakuten.co.jp/' }).action).toBe('URL_CHANGED');
+    expect(() => validateContentRequest({ protocol: PROTOCOL_VERSION, action: 'TEST_RULES', rules: { price: '.price2' } }))
+      .toThrow('Invalid rules for TEST_RULES');
+  });
+});
+
+describe('message client', () => {
+  beforeEach(() => {
+    (chrome.runtime.sendMessage as any).mockReset();
+    (chrome.tabs.sendMessage as any).mockReset();
+  });
+
+  it('should stamp requests with the protocol version', async () => {
+    (chrome.runtime.sendMessage as any).mockResolvedValueOnce({ success: true, data: {} });
+    (chrome.tabs.sendMessage as any).mockResolvedValueOnce({ success: true });
+
+    await sendMessage({ action: 'GET_PRODUCTS' });
+    await sendTabMessage(7, { action: 'URL_CHANGED', url: 'https://item.rakuten.co.jp/' });
+
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'GET_PRODUCTS', protocol: PROTOCOL_VERSION });
+    expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(7, { action: 'URL_CHANGED', url: 'https://item.rakuten.co.jp/', protocol: PROTOCOL_VERSION });
+  });
+
+  it('should explain a lost connection after an extension update', async () => {
+    (chrome.runtime.sendMessage as any).mockRejectedValueOnce(new Error('Extension context invalidated.'));
+
+    await expect(sendMessage({ action: 'GET_PRODUCTS' })).rejects.toThrow(PROTOCOL_MISMATCH_ERROR);
+  });
+
+  it('should pass other failures through', async () => {
+    (chrome.runtime.sendMessage as any).mockRejectedValueOnce(new Error('Could not establish connection'));
+
+    await expect(sendMessage({ action: 'GET_PRODUCTS' })).rejects.toThrow('Could not establish connection');
+  });
+});
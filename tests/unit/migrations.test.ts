@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  MIGRATIONS,
+  runMigrations
+} from '../../src/lib/migrations.js';
+import { validateImportData } from '../../src/lib/data-import.js';
+
+// Storage as written by 1.0.0: history lived both on the product and in the
+// standalone store, which could be missing entries or out of order
+const legacyFixture = () => ({
+  products: {
+    shop_a: {
+      id: 'shop_a',
+      url: 'https://item.rakuten.co.jp/shop/a/',
+      title: 'Product A',
+      price: 1000,
+      shopId: 'shop',
+      itemCode: 'a',
+      createdAt: 1000,
+      updatedAt: 1000,
+      priceHistory: [{ price: 1200, timestamp: 1000 }],
+      alerts: { enabled: false, threshold: 0.1, type: 'both' }
+    },
+    shop_b: {
+      id: 'shop_b',
+      url: 'https://item.rakuten.co.jp/shop/b/',
+      title: 'Product B',
+      price: 500,
+      shopId: 'shop',
+      itemCode: 'b',
+      createdAt: 1000,
+      updatedAt: 1000,
+      priceHistory: [{ price: 500, timestamp: 1000 }]
+    }
+  },
+  priceHistory: {
+    shop_a: [{ price: 1000, timestamp: 3000 }, { price: 1200, timestamp: 1000 }]
+  }
+});
+
+// Schema 2: complete alert settings, standalone sorted history, optional
+// check bookkeeping and availability on points
+const schema2Fixture = () => ({
+  products: {
+    shop_a: {
+      id: 'shop_a',
+      url: 'https://item.rakuten.co.jp/shop/a/',
+      title: 'Product A',
+      price: 1000,
+      shopId: 'shop',
+      itemCode: 'a',
+      availability: 'available',
+      createdAt: 1000,
+      updatedAt: 3000,
+      lastCheckedAt: 3000,
+      priceHistory: [{ price: 1200, timestamp: 1000 }],
+      alerts: { enabled: true, threshold: 0.1, type: 'both', targetPrice: 900, notifyBackInStock: true }
+    }
+  },
+  priceHistory: {
+    shop_a: [{ price: 1200, timestamp: 1000 }, { price: 1000, timestamp: 3000, availability: 'available' }]
+  }
+});
+
+describe('migrations', () => {
+  it('should be ordered by ascending version with no gaps', () => {
+    MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(LEGACY_SCHEMA_VERSION + index + 1);
+    });
+    expect(CURRENT_SCHEMA_VERSION).toBe(LEGACY_SCHEMA_VERSION + MIGRATIONS.length);
+  });
+
+  it('should migrate the legacy shape to the current schema', () => {
+    const result = runMigrations(legacyFixture() as any, LEGACY_SCHEMA_VERSION);
+
+    expect(result.from).toBe(LEGACY_SCHEMA_VERSION);
+    expect(result.to).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.data.priceHistory['rakuten:shop_a']).toEqual([
+      { price: 1200, timestamp: 1000 },
+      { price: 1000, timestamp: 3000 }
+    ]);
+    // Products without a standalone history fall back to the embedded one
+    expect(result.data.priceHistory['rakuten:shop_b']).toEqual([{ price: 500, timestamp: 1000 }]);
+    expect(result.data.products['rakuten:shop_b'].alerts).toEqual({ enabled: false, threshold: 0.1, type: 'both' });
+    expect(result.data.products['rakuten:shop_b'].historySummary?.latestPrice).toBe(500);
+  });
+
+  it('should replace the embedded history of schema 2 data with a summary', () => {
+    const result = runMigrations(schema2Fixture() as any, 2);
+    const product = result.data.products['rakuten:shop_a'] as any;
+
+    expect(product.priceHistory).toBeUndefined();
+    expect(product.historySummary).toEqual({
+      latestPrice: 1000,
+      lowestPrice: 1000,
+      highestPrice: 1200,
+      pointCount: 2,
+      firstRecordedAt: 1000,
+      lastRecordedAt: 3000
+    });
+    expect(product.alerts.targetPrice).toBe(900);
+    expect(result.data.priceHistory['rakuten:shop_a']).toEqual(schema2Fixture().priceHistory.shop_a);
+  });
+
+  it('should namespace Rakuten product ids by site', () => {
+    const data = {
+      products: {
+        shop_a: { id: 'shop_a', url: 'https://item.rakuten.co.jp/shop/a/' },
+        'amazon:B000000001': { id: 'amazon:B000000001', url: 'https://www.amazon.co.jp/dp/B000000001' }
+      },
+      priceHistory: { shop_a: [{ price: 1000, timestamp: 1000 }] },
+      priceRollups: { shop_a: [{ weekStart: 0, min: 900, max: 1100, average: 1000, count: 3 }] },
+      alertState: {
+        shop_a: { lastPointTimestamp: 1000, targetTriggered: true },
+        'shop_a#red': { lastNotifiedPrice: 900 },
+        'amazon:B000000001': { lastPointTimestamp: 2000 }
+      }
+    };
+
+    const result = runMigrations(data as any, 3);
+
+    expect(Object.keys(result.data.products)).toEqual(['rakuten:shop_a', 'amazon:B000000001']);
+    expect(result.data.products['rakuten:shop_a'].id).toBe('rakuten:shop_a');
+    expect(result.data.priceHistory).toEqual({ 'rakuten:shop_a': [{ price: 1000, timestamp: 1000 }] });
+    expect(Object.keys(result.data.priceRollups!)).toEqual(['rakuten:shop_a']);
+    expect(result.data.alertState).toEqual({
+      'rakuten:shop_a': { lastPointTimestamp: 1000, targetTriggered: true },
+      'rakuten:shop_a#red': { lastNotifiedPrice: 900 },
+      'amazon:B000000001': { lastPointTimestamp: 2000 }
+    });
+  });
+
+  it('should leave current schema data unchanged', () => {
+    const current = runMigrations(schema2Fixture() as any, 2).data;
+
+    const result = runMigrations(structuredClone(current), CURRENT_SCHEMA_VERSION);
+
+    expect(result.data).toEqual(current);
+  });
+
+  it('should be idempotent for already migrated data', () => {
+    const once = runMigrations(legacyFixture() as any, LEGACY_SCHEMA_VERSION).data;
+    const twice = MIGRATIONS.reduce((data, migration) => ({ ...data, ...migration.migrate(data) }), once);
+
+    expect(twice).toEqual(once);
+  });
+
+  it('should reject versions it does not know', () => {
+    expect(() => runMigrations(legacyFixture() as any, CURRENT_SCHEMA_VERSION + 1))
+      .toThrow(`Schema version ${CURRENT_SCHEMA_VERSION + 1} is newer than this extension supports`);
+    expect(() => runMigrations(legacyFixture() as any, 0)).toThrow('Unknown schema version 0');
+  });
+
+  it('should migrate older exports during import validation', () => {
+    const data = validateImportData({ version: '1.0.0', ...legacyFixture() });
+
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.priceHistory['rakuten:shop_b']).toEqual([{ price: 500, timestamp: 1000 }]);
+  });
+
+  it('should refuse exports from a newer schema', () => {
+    expect(() => validateImportData({ version: '9.0.0', schemaVersion: CURRENT_SCHEMA_VERSION + 1, ...schema2Fixture() }))
+      .toThrow('newer than this extension supports');
+  });
+});
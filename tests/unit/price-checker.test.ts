@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ScheduledPriceChecker, parseProductPage, MAX_BACKOFF_MINUTES } from '../../src/background/price-checker.js';
+
+const itemPageHtml = `
+<html>
+  <head>
+    <title>【楽天市場】Fallback Title</title>
+    <meta itemprop="price" content="3980">
+    <link itemprop="availability" href="http://schema.org/InStock">
+  </head>
+  <body>
+    <span class="normal_reserve_item_name">Test Product &amp; Case</span>
+    <div class="primary--31sgd">4,200円</div>
+  </body>
+</html>
+`;
+
+const createResponse = (body: string, ok = true, status = 200) => ({
+  ok,
+  status,
+  text: vi.fn().mockResolvedValue(body)
+}) as unknown as Response;
+
+describe('parseProductPage', () => {
+  it('should extract title, price and availability from item markup', () => {
+    const result = parseProductPage(itemPageHtml);
+
+    expect(result).toEqual({
+      title: 'Test Product & Case',
+      price: 3980,
+      availability: 'available',
+      fieldSources: { title: 'selector', price: 'microdata', availability: 'microdata' }
+    });
+  });
+
+  it('should prefer JSON-LD over markup and keep product details', () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': [
+        { '@type': 'BreadcrumbList', name: 'ホーム' },
+        {
+          '@type': 'Product',
+          name: 'JSON-LD Product',
+          gtin13: '4901234567894',
+          brand: { '@type': 'Brand', name: 'ACME' },
+          offers: { '@type': 'Offer', price: '3,580', priceCurrency: 'JPY', availability: 'https://schema.org/OutOfStock' }
+        }
+      ]
+    })}</script>${itemPageHtml}`;
+
+    expect(parseProductPage(html)).toEqual({
+      title: 'JSON-LD Product',
+      price: 3580,
+      availability: 'out_of_stock',
+      currency: 'JPY',
+      gtin: '4901234567894',
+      brand: 'ACME',
+      fieldSources: {
+        title: 'json-ld',
+        price: 'json-ld',
+        availability: 'json-ld',
+        currency: 'json-ld',
+        gtin: 'json-ld',
+        brand: 'json-ld'
+      }
+    });
+  });
+
+  it('should fall back to visible price and Japanese stock text', () => {
+    const html = '<title>Item</title><div class="primary--31sgd">1,234円</div><p>売り切れ</p>';
+
+    const result = parseProductPage(html);
+
+    expect(result.title).toBe('Item');
+    expect(result.price).toBe(1234);
+    expect(result.availability).toBe('out_of_stock');
+  });
+
+  it('should return null price when nothing matches', () => {
+    const result = parseProductPage('<html><body>nothing here</body></html>');
+
+    expect(result.price).toBeNull();
+    expect(result.availability).toBe('unknown');
+  });
+});
+
+describe('ScheduledPriceChecker', () => {
+  let checker: ScheduledPriceChecker;
+  let mockStorageManager: any;
+  let fetcher: ReturnType<typeof vi.fn>;
+  const now = 1_700_000_000_000;
+  const hour = 60 * 60 * 1000;
+
+  const product = (id: string, overrides: Record<string, any> = {}) => ({
+    id,
+    url: `https://item.rakuten.co.jp/shop/${id}/`,
+    title: 'Old Title',
+    price: 5000,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+
+    mockStorageManager = {
+      getAllProducts: vi.fn(),
+      updateProduct: vi.fn().mockResolvedValue({}),
+      addPricePointIfNew: vi.fn().mockResolvedValue(true)
+    };
+    fetcher = vi.fn().mockResolvedValue(createResponse(itemPageHtml));
+    checker = new ScheduledPriceChecker(mockStorageManager, fetcher);
+  });
+
+  describe('isDue', () => {
+    it('should be due when never checked', () => {
+      expect(checker.isDue(product('a') as any, 60, now)).toBe(true);
+    });
+
+    it('should not be due within the interval', () => {
+      expect(checker.isDue(product('a', { lastCheckedAt: now - 30 * 60 * 1000 }) as any, 60, now)).toBe(false);
+    });
+
+    it('should not be due while backing off', () => {
+      expect(checker.isDue(product('a', { nextCheckAt: now + hour }) as any, 60, now)).toBe(false);
+    });
+  });
+
+  describe('getBackoffMinutes', () => {
+    it('should double the interval per failure up to the cap', () => {
+      expect(checker.getBackoffMinutes(60, 1)).toBe(120);
+      expect(checker.getBackoffMinutes(60, 3)).toBe(480);
+      expect(checker.getBackoffMinutes(60, 20)).toBe(MAX_BACKOFF_MINUTES);
+    });
+  });
+
+  describe('runChecks', () => {
+    it('should record observed price and last-checked time', async () => {
+      mockStorageManager.getAllProducts.mockResolvedValue({ a: product('a') });
+
+      const summary = await checker.runChecks({ intervalMinutes: 60, requestDelayMs: 0 }, now);
+
+      expect(fetcher).toHaveBeenCalledWith('https://item.rakuten.co.jp/shop/a/');
+      expect(mockStorageManager.updateProduct).toHaveBeenCalledWith('a', {
+        title: 'Test Product & Case',
+        price: 3980,
+        availability: 'available',
+        fieldSources: { title: 'selector', price: 'microdata', availability: 'microdata' },
+        lastCheckedAt: now,
+        checkFailures: 0,
+        nextCheckAt: undefined
+      });
+      expect(mockStorageManager.addPricePointIfNew).toHaveBeenCalledWith('a', 3980, 'available', {});
+      expect(summary).toEqual({ checked: 1, updated: 1, failed: 0, skipped: 0 });
+    });
+
+    it('should limit checks per run, oldest first', async () => {
+      mockStorageManager.getAllProducts.mockResolvedValue({
+        a: product('a', { lastCheckedAt: now - 3 * hour }),
+        b: product('b', { lastCheckedAt: now - 5 * hour }),
+        c: product('c', { lastCheckedAt: now - 4 * hour })
+      });
+
+      const summary = await checker.runChecks({ intervalMinutes: 60, maxChecksPerRun: 2, requestDelayMs: 0 }, now);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(fetcher.mock.calls.map(call => call[0])).toEqual([
+        'https://item.rakuten.co.jp/shop/b/',
+        'https://item.rakuten.co.jp/shop/c/'
+      ]);
+      expect(summary.skipped).toBe(1);
+    });
+
+    it('should back off after a failed fetch', async () => {
+      mockStorageManager.getAllProducts.mockResolvedValue({ a: product('a', { checkFailures: 1 }) });
+      fetcher.mockResolvedValue(createResponse('', false, 503));
+
+      const summary = await checker.runChecks({ intervalMinutes: 60, requestDelayMs: 0 }, now);
+
+      expect(mockStorageManager.updateProduct).toHaveBeenCalledWith('a', {
+        checkFailures: 2,
+        nextCheckAt: now + 240 * 60 * 1000
+      });
+      expect(mockStorageManager.addPricePointIfNew).not.toHaveBeenCalled();
+      expect(summary.failed).toBe(1);
+    });
+
+    it('should schedule the backoff from the clock it was given', async () => {
+      mockStorageManager.getAllProducts.mockResolvedValue({ a: product('a') });
+      fetcher.mockResolvedValue(createResponse('', false, 503));
+
+      await checker.runChecks({ intervalMinutes: 60, requestDelayMs: 0 }, now + hour);
+
+      expect(mockStorageManager.updateProduct).toHaveBeenCalledWith('a', {
+        checkFailures: 1,
+        nextCheckAt: now + hour + 120 * 60 * 1000
+      });
+    });
+
+    it('should treat pages without a price as failures', async () => {
+      mockStorageManager.getAllProducts.mockResolvedValue({ a: product('a') });
+      fetcher.mockResolvedValue(createResponse('<html></html>'));
+
+      const summary = await checker.runChecks({ intervalMinutes: 60, requestDelayMs: 0 }, now);
+
+      expect(summary.failed).toBe(1);
+      expect(mockStorageManager.updateProduct).toHaveBeenCalledWith('a', expect.objectContaining({ checkFailures: 1 }));
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DAY_MS,
+  combineRollups,
+  getWeekStart,
+  partitionByRetention,
+  rollupPoints,
+  summarizeHistory,
+  toSeries,
+  withHistorySummary
+} from '../../src/lib/price-history.js';
+
+// Monday 2024-01-01T00:00:00Z
+const monday = Date.UTC(2024, 0, 1);
+
+describe('getWeekStart', () => {
+  it('should return the Monday starting the week', () => {
+    expect(getWeekStart(monday)).toBe(monday);
+    expect(getWeekStart(monday + 6 * DAY_MS + 1000)).toBe(monday);
+    expect(getWeekStart(monday - 1)).toBe(monday - 7 * DAY_MS);
+  });
+});
+
+describe('partitionByRetention', () => {
+  const now = monday + 100 * DAY_MS;
+  const history = [
+    { price: 900, timestamp: now - 91 * DAY_MS },
+    { price: 1000, timestamp: now - 10 * DAY_MS }
+  ];
+
+  it('should split points at the retention cutoff', () => {
+    const { kept, expired } = partitionByRetention(history, 90, now);
+
+    expect(kept).toEqual([history[1]]);
+    expect(expired).toEqual([history[0]]);
+  });
+
+  it('should keep everything when retention is forever', () => {
+    expect(partitionByRetention(history, 0, now)).toEqual({ kept: history, expired: [] });
+  });
+});
+
+describe('rollupPoints', () => {
+  it('should bucket points into weeks with their min, max and average', () => {
+    const weeks = rollupPoints([
+      { price: 1000, timestamp: monday + DAY_MS },
+      { price: 800, timestamp: monday + 2 * DAY_MS },
+      { price: 1200, timestamp: monday + 8 * DAY_MS }
+    ]);
+
+    expect(weeks).toEqual([
+      { weekStart: monday, min: 800, max: 1000, average: 900, count: 2 },
+      { weekStart: monday + 7 * DAY_MS, min: 1200, max: 1200, average: 1200, count: 1 }
+    ]);
+  });
+});
+
+describe('combineRollups', () => {
+  it('should weight averages by count when weeks overlap', () => {
+    const combined = combineRollups(
+      [{ weekStart: monday, min: 900, max: 900, average: 900, count: 3 }],
+      [{ weekStart: monday, min: 1300, max: 1300, average: 1300, count: 1 }]
+    );
+
+    expect(combined).toEqual([{ weekStart: monday, min: 900, max: 1300, average: 1000, count: 4 }]);
+  });
+});
+
+describe('toSeries', () => {
+  it('should place rolled-up weeks before the recent points', () => {
+    const series = toSeries(
+      [{ price: 1000, timestamp: monday + 30 * DAY_MS }],
+      [{ weekStart: monday, min: 800, max: 1001, average: 900.6, count: 5 }]
+    );
+
+    expect(series).toEqual([
+      { price: 901, timestamp: monday, min: 800, max: 1001, rolledUp: true },
+      { price: 1000, timestamp: monday + 30 * DAY_MS }
+    ]);
+  });
+});
+
+describe('summarizeHistory', () => {
+  it('should return undefined for an empty history', () => {
+    expect(summarizeHistory([])).toBeUndefined();
+  });
+
+  it('should derive latest, lowest and highest prices regardless of order', () => {
+    const summary = summarizeHistory([
+      { price: 900, timestamp: 2000 },
+      { price: 1000, timestamp: 3000 },
+      { price: 1200, timestamp: 1000 }
+    ]);
+
+    expect(summary).toEqual({
+      latestPrice: 1000,
+      lowestPrice: 900,
+      highestPrice: 1200,
+      pointCount: 3,
+      firstRecordedAt: 1000,
+      lastRecordedAt: 3000
+    });
+  });
+
+  it('should include the range of rolled-up weeks', () => {
+    const summary = summarizeHistory(
+      [{ price: 1000, timestamp: monday + 30 * DAY_MS }],
+      [{ weekStart: monday, min: 800, max: 1500, average: 1100, count: 4 }]
+    );
+
+    expect(summary).toEqual(expect.objectContaining({
+      latestPrice: 1000,
+      lowestPrice: 800,
+      highestPrice: 1500,
+      firstRecordedAt: monday
+    }));
+  });
+});
+
+describe('withHistorySummary', () => {
+  const product = {
+    id: 'a',
+    url: 'https://item.rakuten.co.jp/shop/a/',
+    title: 'A',
+    price: 1000,
+    shopId: 'shop',
+    itemCode: 'a',
+    createdAt: 1000,
+    updatedAt: 1000,
+    alerts: { enabled: false, threshold: 0.1, type: 'both' as const }
+  };
+
+  it('should replace a stale summary', () => {
+    const stale = { ...product, historySummary: summarizeHistory([{ price: 5000, timestamp: 1 }])! };
+
+    const result = withHistorySummary(stale, [{ price: 1000, timestamp: 1000 }]);
+
+    expect(result.historySummary?.lowestPrice).toBe(1000);
+  });
+
+  it('should drop the summary when the history is empty', () => {
+    const stale = { ...product, historySummary: summarizeHistory([{ price: 5000, timestamp: 1 }])! };
+
+    expect(withHistorySummary(stale, [])).toEqual(product);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { computePriceStats, sortProducts, timeWeightedAverage } from '../../src/lib/price-stats.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = 1_700_000_000_000;
+
+const product = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  url: `https://item.rakuten.co.jp/shop/${id}/`,
+  title: `Product ${id}`,
+  price: 1000,
+  shopId: 'shop',
+  itemCode: id,
+  createdAt: 1000,
+  updatedAt: 1000,
+  alerts: { enabled: false, threshold: 0.1, type: 'both' as const },
+  ...overrides
+});
+
+describe('timeWeightedAverage', () => {
+  it('should weight each price by how long it held', () => {
+    const series = [
+      { price: 1000, timestamp: now - 40 * DAY },
+      { price: 700, timestamp: now - 10 * DAY }
+    ];
+
+    // 1000 for 20 of the last 30 days, 700 for the other 10
+    expect(timeWeightedAverage(series, 30, now)).toBeCloseTo(900);
+  });
+
+  it('should return null when nothing was observed in the window', () => {
+    expect(timeWeightedAverage([], 30, now)).toBeNull();
+    expect(timeWeightedAverage([{ price: 1000, timestamp: now }], 30, now)).toBeNull();
+  });
+});
+
+describe('computePriceStats', () => {
+  it('should return null for an empty history', () => {
+    expect(computePriceStats([], now)).toBeNull();
+  });
+
+  it('should describe where the current price sits in its history', () => {
+    const stats = computePriceStats([
+      { price: 1200, timestamp: now - 100 * DAY },
+      { price: 800, timestamp: now - 50 * DAY, lastSeenAt: now - 20 * DAY },
+      { price: 1000, timestamp: now - 10 * DAY }
+    ], now);
+
+    expect(stats).toEqual(expect.objectContaining({
+      currentPrice: 1000,
+      allTimeLow: 800,
+      allTimeLowAt: now - 20 * DAY,
+      allTimeHigh: 1200,
+      allTimeHighAt: now - 100 * DAY,
+      percentFromLow: 25,
+      daysSinceLow: 20,
+      dealScore: 50
+    }));
+    expect(stats?.average30d).toBeCloseTo((800 * 20 + 1000 * 10) / 30);
+  });
+
+  it('should use the range of rolled-up weeks', () => {
+    const stats = computePriceStats([
+      { price: 1000, timestamp: now - 400 * DAY, min: 500, max: 2000, rolledUp: true },
+      { price: 500, timestamp: now - DAY }
+    ], now);
+
+    expect(stats?.allTimeLow).toBe(500);
+    expect(stats?.allTimeHigh).toBe(2000);
+    expect(stats?.daysSinceLow).toBe(0);
+    expect(stats?.dealScore).toBe(100);
+  });
+
+  it('should give a flat history a neutral score', () => {
+    expect(computePriceStats([{ price: 1000, timestamp: now - DAY }], now)?.dealScore).toBe(50);
+  });
+});
+
+describe('sortProducts', () => {
+  const products = [
+    product('a', { title: 'Banana', price: 300, createdAt: 1 }),
+    product('b', { title: 'Apple', price: 100, createdAt: 2 }),
+    product('c', { title: 'Cherry', price: 200, createdAt: 3 })
+  ];
+  const stats = {
+    a: computePriceStats([{ price: 400, timestamp: now - 2 * DAY }, { price: 300, timestamp: now - DAY }], now),
+    b: computePriceStats([{ price: 50, timestamp: now - 2 * DAY }, { price: 100, timestamp: now - DAY }], now),
+    c: null
+  };
+
+  it('should put the best deals first and products without history last', () => {
+    expect(sortProducts(products, stats, 'dealScore').map(p => p.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should sort by price, name and date added', () => {
+    expect(sortProducts(products, stats, 'price').map(p => p.id)).toEqual(['b', 'c', 'a']);
+    expect(sortProducts(products, stats, 'title').map(p => p.id)).toEqual(['b', 'a', 'c']);
+    expect(sortProducts(products, stats, 'added').map(p => p.id)).toEqual(['a', 'b', 'c']);
+  });
+});
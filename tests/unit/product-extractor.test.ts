@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { RakutenProductExtractor } from '../../src/content/rakuten-extractor.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PAGE_SETTLE_MS, ProductExtractor } from '../../src/content/product-extractor.js';
+import { PROTOCOL_MISMATCH_ERROR, PROTOCOL_VERSION } from '../../src/lib/messages.js';
+
+// The suite swaps in a mock document; overlay tests need the real one
+const realDocument = globalThis.document;
 
 // Mock DOM elements for testing
 const createMockElement = (content: string, properties: Record<string, any> = {}) => {
@@ -11,8 +15,12 @@ const createMockElement = (content: string, properties: Record<string, any> = {}
   };
 };
 
-describe('RakutenProductExtractor', () => {
-  let extractor: RakutenProductExtractor;
+// Structured data finds nothing, leaving the site selectors under test
+const selectorResults = (elements: any[]) => (selector: string) =>
+  /itemprop|itemscope|ld\+json/.test(selector) ? [] : elements;
+
+describe('ProductExtractor', () => {
+  let extractor: ProductExtractor;
   let mockDocument: any;
 
   beforeEach(() => {
@@ -23,6 +31,7 @@ describe('RakutenProductExtractor', () => {
       querySelector: vi.fn(),
       querySelectorAll: vi.fn(() => []),
       createElement: vi.fn(),
+      addEventListener: vi.fn(),
       head: { appendChild: vi.fn() },
       body: { appendChild: vi.fn() }
     };
@@ -40,7 +49,7 @@ describe('RakutenProductExtractor', () => {
     // Mock chrome.storage.sync.get
     chrome.storage.sync.get.mockResolvedValue({ trackingEnabled: true });
     
-    extractor = new RakutenProductExtractor();
+    extractor = new ProductExtractor();
   });
 
   describe('constructor', () => {
@@ -170,36 +179,28 @@ describe('RakutenProductExtractor', () => {
 
   describe('getAvailability', () => {
     it('should detect available status in Japanese', () => {
-      mockDocument.querySelectorAll.mockReturnValue([
-        createMockElement('在庫あり - 即日発送')
-      ]);
+      mockDocument.querySelectorAll.mockImplementation(selectorResults([createMockElement('在庫あり - 即日発送')]));
       
       const result = extractor.getAvailability();
       expect(result).toBe('available');
     });
 
     it('should detect out of stock status', () => {
-      mockDocument.querySelectorAll.mockReturnValue([
-        createMockElement('在庫切れ')
-      ]);
+      mockDocument.querySelectorAll.mockImplementation(selectorResults([createMockElement('在庫切れ')]));
       
       const result = extractor.getAvailability();
       expect(result).toBe('out_of_stock');
     });
 
     it('should detect backorder status', () => {
-      mockDocument.querySelectorAll.mockReturnValue([
-        createMockElement('お取り寄せ商品')
-      ]);
+      mockDocument.querySelectorAll.mockImplementation(selectorResults([createMockElement('お取り寄せ商品')]));
       
       const result = extractor.getAvailability();
       expect(result).toBe('backorder');
     });
 
     it('should return unknown for unrecognized status', () => {
-      mockDocument.querySelectorAll.mockReturnValue([
-        createMockElement('不明なステータス')
-      ]);
+      mockDocument.querySelectorAll.mockImplementation(selectorResults([createMockElement('不明なステータス')]));
       
       const result = extractor.getAvailability();
       expect(result).toBe('unknown');
@@ -268,6 +269,7 @@ describe('RakutenProductExtractor', () => {
         title: 'Test Product',
         price: 1500,
         availability: 'available',
+        fieldSources: { title: 'selector', price: 'selector', availability: 'selector' },
         timestamp: 1234567890
       });
       
@@ -280,6 +282,66 @@ describe('RakutenProductExtractor', () => {
     });
   });
 
+  describe('structured data', () => {
+    it('should prefer JSON-LD over site selectors and record where each field came from', () => {
+      globalThis.document = realDocument;
+      document.body.innerHTML = `
+        <script type="application/ld+json">{"@type":"Product","name":"JSON-LD Item","gtin13":"4901234567894","offers":{"price":"2480","priceCurrency":"JPY"}}</script>
+        <span class="normal_reserve_item_name">Selector Item</span>
+        <div class="price2">3,000円</div>`;
+
+      const result = extractor.extractProductData();
+
+      expect(result).toMatchObject({
+        title: 'JSON-LD Item',
+        price: 2480,
+        currency: 'JPY',
+        gtin: '4901234567894',
+        fieldSources: { title: 'json-ld', price: 'json-ld', currency: 'json-ld', gtin: 'json-ld' }
+      });
+      expect(result.fieldSources?.availability).toBeUndefined();
+      document.body.innerHTML = '';
+    });
+  });
+
+  describe('loadRulePack', () => {
+    it('should read the page with a saved rule pack', async () => {
+      globalThis.document = realDocument;
+      document.body.innerHTML = '<h1 class="title--x9">Renamed Item</h1>';
+      (chrome.storage.local.get as any).mockResolvedValueOnce({
+        rulePacks: {
+          rakuten: { format: 1, siteId: 'rakuten', version: 2, rules: { title: ['h1.title--x9'], price: [], availability: [], seller: [] } }
+        }
+      });
+
+      await extractor.loadRulePack();
+
+      expect(chrome.storage.local.get).toHaveBeenCalledWith('rulePacks');
+      expect(extractor.getProductTitle()).toBe('Renamed Item');
+      document.body.innerHTML = '';
+    });
+  });
+
+  describe('capturePage', () => {
+    it('should send a sanitized snapshot with the extraction report', async () => {
+      globalThis.document = realDocument;
+      document.body.innerHTML = '<h1>Broken Item</h1><script>track()</script>';
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true });
+      vi.spyOn(extractor, 'showStatus').mockImplementation(() => {});
+
+      await extractor.capturePage();
+
+      const { action, snapshot } = (chrome.runtime.sendMessage as any).mock.calls[0][0];
+      expect(action).toBe('SAVE_SNAPSHOT');
+      expect(snapshot.url).toBe('https://item.rakuten.co.jp/shop123/item456/');
+      expect(snapshot.html).toContain('<h1>Broken Item</h1>');
+      expect(snapshot.html).not.toContain('track()');
+      expect(snapshot.report.success).toBe(false);
+      expect(extractor.showStatus).toHaveBeenCalledWith('pageCaptured', 'success');
+      document.body.innerHTML = '';
+    });
+  });
+
   describe('trackProduct', () => {
     const mockProductData = {
       url: 'https://item.rakuten.co.jp/shop/item/',
@@ -299,7 +361,8 @@ describe('RakutenProductExtractor', () => {
       
       expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
         action: 'TRACK_PRODUCT',
-        data: mockProductData
+        data: mockProductData,
+        protocol: PROTOCOL_VERSION
       });
     });
 
@@ -332,6 +395,16 @@ describe('RakutenProductExtractor', () => {
       expect(extractor.showStatus).toHaveBeenCalledWith('エラーが発生しました', 'error');
       expect(console.error).toHaveBeenCalledWith('Failed to track product:', expect.any(Error));
     });
+
+    it('should ask for a reload once the extension has been updated', async () => {
+      (chrome.runtime.sendMessage as any).mockRejectedValue(new Error('Extension context invalidated.'));
+      vi.spyOn(extractor, 'showStatus').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await extractor.trackProduct();
+
+      expect(extractor.showStatus).toHaveBeenCalledWith(PROTOCOL_MISMATCH_ERROR, 'error');
+    });
   });
 
   describe('init', () => {
@@ -340,6 +413,7 @@ describe('RakutenProductExtractor', () => {
       vi.spyOn(extractor, 'extractProductData').mockImplementation(() => {});
       vi.spyOn(extractor, 'injectTrackingUI').mockImplementation(() => {});
       vi.spyOn(extractor, 'checkAndStoreTodaysPrice').mockImplementation(async () => {});
+      vi.spyOn(extractor, 'watchPage').mockImplementation(() => {});
     });
 
     it('should initialize when tracking is enabled and on product page', async () => {
@@ -353,6 +427,24 @@ describe('RakutenProductExtractor', () => {
       expect(extractor.checkAndStoreTodaysPrice).toHaveBeenCalled();
     });
 
+    it('should record how the product page was detected', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValue({ trackingEnabled: true, autoTrack: false });
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true });
+
+      await extractor.init();
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        action: 'RECORD_EXTRACTION',
+        report: expect.objectContaining({
+          url: 'https://item.rakuten.co.jp/shop123/item456/',
+          siteId: 'rakuten',
+          detection: 'immediate',
+          success: false
+        }),
+        protocol: PROTOCOL_VERSION
+      });
+    });
+
     it('should not initialize when tracking is disabled', async () => {
       chrome.storage.sync.get.mockResolvedValue({ trackingEnabled: false });
       
@@ -372,6 +464,106 @@ describe('RakutenProductExtractor', () => {
     });
   });
 
+  describe('live observation', () => {
+    const PAGE = `
+      <div class="reviews"><p>★★★★☆</p></div>
+      <div class="buy-box"><div class="price2">1,000円</div><div class="stock_status">在庫あり</div></div>
+      <div id="rakuten-price-tracker-fab"><div class="rpt-product-price">¥1,000</div></div>`;
+
+    beforeEach(() => {
+      globalThis.document = realDocument;
+      document.body.innerHTML = PAGE;
+      extractor.productData = {
+        url: 'https://item.rakuten.co.jp/shop123/item456/',
+        shopId: 'shop123',
+        itemCode: 'item456',
+        title: 'Test Product',
+        price: 1000,
+        availability: 'available',
+        timestamp: 1
+      };
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true, priceAdded: true });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      extractor.stopWatching();
+      document.body.innerHTML = '';
+    });
+
+    it('should send a changed price and update the button', async () => {
+      document.querySelector('.price2')!.textContent = '800円';
+
+      await extractor.refreshObservation();
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'CHECK_AND_STORE_PRICE',
+        productId: 'rakuten:shop123_item456',
+        price: 800,
+        availability: 'available'
+      }));
+      expect(document.querySelector('.rpt-product-price')!.textContent).toBe('¥800');
+    });
+
+    it('should not send anything while the page is unchanged', async () => {
+      await extractor.refreshObservation();
+
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should keep the JSON-LD price until the rendered price changes', async () => {
+      document.body.insertAdjacentHTML('afterbegin', '<script type="application/ld+json">{"@type":"Product","name":"Test Product","offers":{"price":"1200"}}</script>');
+      expect(extractor.extractProductData().price).toBe(1200);
+
+      document.querySelector('.stock_status')!.setAttribute('data-rendered', 'again');
+      await extractor.refreshObservation();
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+
+      document.querySelector('.price2')!.textContent = '800円';
+      await extractor.refreshObservation();
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ price: 800 }));
+      expect(extractor.productData?.fieldSources?.price).toBe('selector');
+    });
+
+    it('should only listen to clicks on the option pickers', () => {
+      document.body.insertAdjacentHTML('beforeend', '<div class="sku-selector"><button data-value="red">Red</button></div>');
+      const schedule = vi.spyOn(extractor as any, 'scheduleRefresh').mockImplementation(() => {});
+      extractor.watchPage();
+
+      (document.querySelector('.reviews p') as HTMLElement).click();
+      expect(schedule).not.toHaveBeenCalled();
+
+      (document.querySelector('.sku-selector button') as HTMLElement).click();
+      expect(schedule).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only observe the price and stock region', async () => {
+      const refresh = vi.spyOn(extractor, 'refreshObservation').mockResolvedValue(undefined);
+      extractor.watchPage();
+
+      document.querySelector('.reviews p')!.textContent = '★★★★★';
+      await new Promise(resolve => setTimeout(resolve, PAGE_SETTLE_MS + 50));
+      expect(refresh).not.toHaveBeenCalled();
+
+      document.querySelector('.stock_status')!.textContent = '売り切れ';
+      await new Promise(resolve => setTimeout(resolve, PAGE_SETTLE_MS + 50));
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload for a new product url only', async () => {
+      const loadPage = vi.spyOn(extractor, 'loadPage').mockResolvedValue(undefined);
+      (extractor as any).pageUrl = 'https://item.rakuten.co.jp/shop123/item456/';
+
+      await extractor.handleUrlChange('https://item.rakuten.co.jp/shop123/item456/?variant=white');
+      expect(loadPage).not.toHaveBeenCalled();
+
+      await extractor.handleUrlChange('https://item.rakuten.co.jp/shop123/item789/');
+      expect(loadPage).toHaveBeenCalledTimes(1);
+      expect(extractor.productData).toBeNull();
+      expect(document.querySelector('#rakuten-price-tracker-fab')).toBeNull();
+    });
+  });
+
   describe('checkAndStoreTodaysPrice', () => {
     beforeEach(() => {
       extractor.productData = {
@@ -393,8 +585,10 @@ describe('RakutenProductExtractor', () => {
       
       expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
         action: 'CHECK_AND_STORE_PRICE',
-        productId: 'shop123_item456',
-        price: 1500
+        productId: 'rakuten:shop123_item456',
+        price: 1500,
+        availability: 'available',
+        protocol: PROTOCOL_VERSION
       });
     });
 
@@ -432,12 +626,84 @@ describe('RakutenProductExtractor', () => {
       
       expect(console.error).toHaveBeenCalledWith('Failed to check and store price:', expect.any(Error));
     });
+
+    it('should include the selected variant', async () => {
+      globalThis.document = realDocument;
+      document.body.innerHTML = '<select name="choice1"><option value="">選択してください</option><option value="red" selected>レッド</option></select>';
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true, priceAdded: false });
+
+      await extractor.checkAndStoreTodaysPrice();
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        productId: 'rakuten:shop123_item456',
+        variant: { id: 'red', label: 'レッド' }
+      }));
+      document.body.innerHTML = '';
+    });
+  });
+
+  describe('loadHistoryPanel', () => {
+    const overview = {
+      product: { id: 'rakuten:shop_item', title: 'Test Product', price: 900 },
+      series: [{ price: 1000, timestamp: 1000 }, { price: 900, timestamp: 2000 }],
+      stats: { allTimeLow: 900, allTimeLowAt: 2000 }
+    };
+
+    beforeEach(() => {
+      globalThis.document = realDocument;
+      extractor.productData = {
+        url: 'https://item.rakuten.co.jp/shop/item/',
+        title: 'Test Product',
+        price: 900,
+        shopId: 'shop',
+        itemCode: 'item',
+        availability: 'available',
+        timestamp: Date.now()
+      };
+      extractor.injectTrackingUI();
+    });
+
+    afterEach(() => {
+      document.querySelector('#rakuten-price-tracker-fab')?.remove();
+    });
+
+    it('should add a collapsed history panel for tracked products', async () => {
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true, data: overview });
+
+      await extractor.loadHistoryPanel();
+
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({ action: 'GET_PRODUCT_OVERVIEW', productId: 'rakuten:shop_item', protocol: PROTOCOL_VERSION });
+      const panel = document.querySelector('[data-rpt-panel="history"]') as HTMLElement;
+      expect(panel).not.toBeNull();
+      expect(panel.style.display).toBe('none');
+      expect(panel.querySelector('polyline')).not.toBeNull();
+    });
+
+    it('should expand the panel when the tracked button is clicked', async () => {
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true, data: overview });
+      await extractor.loadHistoryPanel();
+      (chrome.runtime.sendMessage as any).mockClear();
+
+      (document.querySelector('#rakuten-price-tracker-fab button') as HTMLElement).click();
+
+      const panel = document.querySelector('[data-rpt-panel="history"]') as HTMLElement;
+      expect(panel.style.display).toBe('block');
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should leave untracked products without a panel', async () => {
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true, data: null });
+
+      await extractor.loadHistoryPanel();
+
+      expect(document.querySelector('[data-rpt-panel="history"]')).toBeNull();
+    });
   });
 
   describe('generateProductId', () => {
     it('should generate ID from Rakuten URL', () => {
       const result = extractor['generateProductId']('https://item.rakuten.co.jp/shop123/item456/');
-      expect(result).toBe('shop123_item456');
+      expect(result).toBe('rakuten:shop123_item456');
     });
 
     it('should fallback to base64 for non-Rakuten URLs', () => {
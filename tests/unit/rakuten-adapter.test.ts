@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { rakutenAdapter } from '../../src/lib/sites/rakuten.js';
+
+const html = readFileSync(resolve(__dirname, '../fixtures/sites/rakuten-item.html'), 'utf-8');
+const rakuten24Html = readFileSync(resolve(__dirname, '../fixtures/sites/rakuten24-item.html'), 'utf-8');
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+describe('rakutenAdapter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should match item pages only', () => {
+    expect(rakutenAdapter.matchesHost('item.rakuten.co.jp')).toBe(true);
+    expect(rakutenAdapter.matchesHost('www.rakuten.co.jp')).toBe(false);
+  });
+
+  it('should read the shop and item code from the url', () => {
+    expect(rakutenAdapter.parseProductUrl('https://item.rakuten.co.jp/sample-shop/tumbler-450/?iasid=abc'))
+      .toEqual({ shopId: 'sample-shop', itemCode: 'tumbler-450' });
+    expect(rakutenAdapter.parseProductUrl('https://item.rakuten.co.jp/sample-shop/')).toBeNull();
+  });
+
+  it('should extract product details from the live page', () => {
+    const doc = parseDocument(html);
+
+    expect(rakutenAdapter.getTitle(doc)).toBe('ステンレス タンブラー 450ml');
+    expect(rakutenAdapter.getPrice(doc)).toBe(2980);
+    expect(rakutenAdapter.getAvailability(doc)).toBe('available');
+    expect(rakutenAdapter.getSeller(doc, null)).toBe('サンプルショップ');
+    expect(rakutenAdapter.getPriceExtras!(doc)).toEqual({ pointMultiplier: 5, shippingCost: 0 });
+  });
+
+  it('should read shipping charged separately and leave missing extras out', () => {
+    const doc = parseDocument('<div class="normal-reserve-shipping">送料別 ￥660</div><div class="point_up">ポイント２．５倍</div>');
+
+    expect(rakutenAdapter.getPriceExtras!(doc)).toEqual({ pointMultiplier: 2.5, shippingCost: 660 });
+    expect(rakutenAdapter.getPriceExtras!(parseDocument('<div class="shipping-cost">送料別</div>'))).toEqual({});
+  });
+
+  it('should only look inside the price containers for their number', () => {
+    const nested = parseDocument('<div class="item-price--3LAZB"><div class="number--50WuC">2,980円</div></div>');
+    const pointsInside = parseDocument('<div id="itemPrice">2,980円<span class="price">29ポイント</span></div>');
+
+    expect(rakutenAdapter.getPrice(nested)).toBe(2980);
+    expect(rakutenAdapter.getPrice(pointsInside)).toBe(2980);
+  });
+
+  it('should not treat a free-shipping threshold as free shipping', () => {
+    const extras = (text: string) => rakutenAdapter.getPriceExtras!(parseDocument(`<div class="shipping-cost">${text}</div>`));
+
+    expect(extras('3,980円以上で送料無料')).toEqual({});
+    expect(extras('送料無料ライン：3,980円以上')).toEqual({});
+    expect(extras('送料別 ￥660（3,980円以上で送料無料）')).toEqual({ shippingCost: 660 });
+    expect(extras('送料無料')).toEqual({ shippingCost: 0 });
+  });
+
+  it('should fall back to the shop id for the seller', () => {
+    const doc = parseDocument('<span class="normal_reserve_item_name">Item</span>');
+
+    expect(rakutenAdapter.getSeller(doc, { shopId: 'sample-shop', itemCode: 'item' })).toBe('sample-shop');
+  });
+
+  it('should report disabled purchase buttons as out of stock', () => {
+    const doc = parseDocument('<button aria-label="かごに追加" disabled>かごに追加</button>');
+
+    expect(rakutenAdapter.getAvailability(doc)).toBe('out_of_stock');
+  });
+
+  it('should read with the selectors of a rule pack', () => {
+    const doc = parseDocument('<h1 class="name--a1">Renamed</h1><div class="wrap--b2">ポイント10倍 <span class="num--c3">1,480円</span></div>');
+    const adapter = rakutenAdapter.withRules!({
+      title: ['h1.name--a1'],
+      price: ['div.wrap--b2'],
+      priceInner: { 'div.wrap--b2': 'span.num--c3' },
+      availability: [],
+      seller: []
+    });
+
+    expect(adapter.getTitle(doc)).toBe('Renamed');
+    expect(adapter.getPrice(doc)).toBe(1480);
+    expect(rakutenAdapter.getTitle(doc)).toBe('Renamed');
+    expect(rakutenAdapter.getPrice(doc)).toBeNull();
+  });
+
+  it('should detect campaign banners beside the price, including image alt text', () => {
+    const markup = `
+      <div class="buy-box">
+        <div class="price2">1,000円</div>
+        <div class="campaign-banner"><a href="#"><img alt="楽天スーパーSALE"></a></div>
+        <div class="point_up">ポイント2倍</div>
+      </div>`;
+
+    expect(rakutenAdapter.getPriceExtras!(parseDocument(markup))).toEqual({ pointMultiplier: 2, campaign: '楽天スーパーSALE' });
+    expect(rakutenAdapter.parsePage(markup).campaign).toBe('楽天スーパーSALE');
+  });
+
+  it('should ignore header banners and sales that are only announced', () => {
+    const markup = `
+      <header><div class="banner">楽天スーパーSALE開催中</div></header>
+      <div class="buy-box">
+        <div class="price2">1,000円</div>
+        <div class="campaign-banner">お買い物マラソン 開催予告</div>
+        <div class="point_up">ポイント2倍</div>
+      </div>`;
+
+    expect(rakutenAdapter.getPriceExtras!(parseDocument(markup))).toEqual({ pointMultiplier: 2 });
+    expect(rakutenAdapter.parsePage(markup).campaign).toBeUndefined();
+  });
+
+  it('should parse a fetched page', () => {
+    expect(rakutenAdapter.parsePage(html)).toEqual({
+      title: 'ステンレス タンブラー 450ml',
+      price: 2980,
+      availability: 'available',
+      pointMultiplier: 5,
+      shippingCost: 0
+    });
+  });
+
+  it('should handle Rakuten 24 item pages', () => {
+    const doc = parseDocument(rakuten24Html);
+
+    expect(rakutenAdapter.parseProductUrl('https://item.rakuten.co.jp/rakuten24/e4900000000017/'))
+      .toEqual({ shopId: 'rakuten24', itemCode: 'e4900000000017' });
+    expect(rakutenAdapter.getTitle(doc)).toBe('食器用洗剤 詰め替え 1200ml');
+    expect(rakutenAdapter.getPrice(doc)).toBe(498);
+    expect(rakutenAdapter.getAvailability(doc)).toBe('out_of_stock');
+    expect(rakutenAdapter.parsePage(rakuten24Html).availability).toBe('out_of_stock');
+  });
+
+  it('should read the selected variant once every option is chosen', () => {
+    const doc = parseDocument(`
+      <select name="choice-カラー"><option value="">選択してください</option><option value="white" selected>ホワイト</option></select>
+      <div class="sku-selector"><button aria-pressed="false">S</button><button aria-pressed="true" data-value="M">M</button></div>
+    `);
+
+    expect(rakutenAdapter.getSelectedVariant!(doc)).toEqual({ id: 'white/M', label: 'ホワイト / M' });
+  });
+
+  it('should not report a variant while an option is unchosen', () => {
+    const doc = parseDocument(`
+      <select name="choice-カラー"><option value="" selected>選択してください</option><option value="white">ホワイト</option></select>
+    `);
+
+    expect(rakutenAdapter.getSelectedVariant!(doc)).toBeNull();
+    expect(rakutenAdapter.getSelectedVariant!(parseDocument(html))).toBeNull();
+  });
+});
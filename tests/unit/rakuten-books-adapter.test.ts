@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { rakutenBooksAdapter } from '../../src/lib/sites/rakuten-books.js';
+
+const html = readFileSync(resolve(__dirname, '../fixtures/sites/rakuten-books-item.html'), 'utf-8');
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+describe('rakutenBooksAdapter', () => {
+  it('should read the item number from the url', () => {
+    expect(rakutenBooksAdapter.parseProductUrl('https://books.rakuten.co.jp/rb/17654321/?l-id=search-c-item-text-01'))
+      .toEqual({ shopId: '', itemCode: '17654321' });
+    expect(rakutenBooksAdapter.parseProductUrl('https://books.rakuten.co.jp/search?sitem=typescript')).toBeNull();
+  });
+
+  it('should read the ISBN or JAN from the page', () => {
+    expect(rakutenBooksAdapter.getProductCode!(parseDocument(html))).toBe('9784000000001');
+    expect(rakutenBooksAdapter.getProductCode!(parseDocument(
+      '<ul class="productInfo"><li><span class="category">JANコード</span><span class="categoryValue">4988000000001</span></li></ul>'
+    ))).toBe('4988000000001');
+    expect(rakutenBooksAdapter.getProductCode!(parseDocument('<h1>No code</h1>'))).toBeNull();
+  });
+
+  it('should extract product details from the live page', () => {
+    const doc = parseDocument(html);
+
+    expect(rakutenBooksAdapter.getTitle(doc)).toBe('はじめてのTypeScript');
+    expect(rakutenBooksAdapter.getPrice(doc)).toBe(3080);
+    expect(rakutenBooksAdapter.getAvailability(doc)).toBe('available');
+    expect(rakutenBooksAdapter.getSeller(doc, null)).toBe('山田 太郎');
+  });
+
+  it('should read order status wording', () => {
+    const status = (text: string) => rakutenBooksAdapter.getAvailability(
+      parseDocument(`<div id="productDetailedStatus">${text}</div>`)
+    );
+
+    expect(status('ご注文できない商品*')).toBe('out_of_stock');
+    expect(status('予約受付中')).toBe('backorder');
+  });
+
+  it('should only read stock wording from the purchase box', () => {
+    const recommendations = '<div class="recommend">品切れ 予約受付中</div>';
+
+    expect(rakutenBooksAdapter.parsePage(`<h1>Book</h1>${recommendations}`).availability).toBe('unknown');
+    expect(rakutenBooksAdapter.parsePage(
+      `<h1>Book</h1><div id="purchaseBox"><p>ご注文できない商品*</p></div>${recommendations}`
+    ).availability).toBe('out_of_stock');
+  });
+
+  it('should parse a fetched page', () => {
+    expect(rakutenBooksAdapter.parsePage(html)).toEqual({
+      title: 'はじめてのTypeScript',
+      price: 3080,
+      availability: 'available'
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { rakutenFashionAdapter } from '../../src/lib/sites/rakuten-fashion.js';
+
+const html = readFileSync(resolve(__dirname, '../fixtures/sites/rakuten-fashion-item.html'), 'utf-8');
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+describe('rakutenFashionAdapter', () => {
+  it('should read the item code from the url', () => {
+    expect(rakutenFashionAdapter.parseProductUrl('https://brandavenue.rakuten.co.jp/item/AB1234/?s-id=top'))
+      .toEqual({ shopId: '', itemCode: 'AB1234' });
+    expect(rakutenFashionAdapter.parseProductUrl('https://brandavenue.rakuten.co.jp/ladies/')).toBeNull();
+  });
+
+  it('should extract product details from the live page', () => {
+    const doc = parseDocument(html);
+
+    expect(rakutenFashionAdapter.getTitle(doc)).toBe('リネンシャツ');
+    // The sale price, not the struck-through original
+    expect(rakutenFashionAdapter.getPrice(doc)).toBe(6160);
+    expect(rakutenFashionAdapter.getAvailability(doc)).toBe('available');
+    expect(rakutenFashionAdapter.getSeller(doc, null)).toBe('Sample Brand');
+  });
+
+  it('should only report sold out when every size is', () => {
+    const doc = parseDocument('<span class="sku-stock">SOLD OUT</span><span class="sku-stock">SOLD OUT</span>');
+
+    expect(rakutenFashionAdapter.getAvailability(doc)).toBe('out_of_stock');
+  });
+
+  it('should parse a fetched page', () => {
+    expect(rakutenFashionAdapter.parsePage(html)).toEqual({
+      title: 'リネンシャツ',
+      price: 6160,
+      availability: 'available'
+    });
+  });
+});
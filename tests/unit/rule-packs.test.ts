@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  BUNDLED_RULE_PACKS,
+  RULE_PACKS_KEY,
+  editRulePack,
+  getRulePack,
+  isRulePackOutdated,
+  resetRulePack,
+  saveRulePack,
+  testRules,
+  validateRulePack,
+  type RulePack
+} from '../../src/lib/sites/rule-packs.js';
+
+const bundled = BUNDLED_RULE_PACKS.rakuten!;
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+const customPack = (overrides: Partial<RulePack> = {}): RulePack => ({
+  format: 1,
+  siteId: 'rakuten',
+  version: 2,
+  baseVersion: bundled.version,
+  rules: { title: ['h1.new--x1'], price: ['div.price--y2'], availability: [], seller: ['.shop_name'] },
+  ...overrides
+});
+
+describe('validateRulePack', () => {
+  it('should accept a pack and trim its selectors', () => {
+    const pack = validateRulePack({ ...customPack(), rules: { ...customPack().rules, title: [' h1.new--x1 ', ''] } });
+
+    expect(pack.rules.title).toEqual(['h1.new--x1']);
+    expect(pack.baseVersion).toBe(bundled.version);
+  });
+
+  it('should reject unknown formats, sites and broken selectors', () => {
+    expect(() => validateRulePack({ ...customPack(), format: 2 })).toThrow('Unsupported rule pack format');
+    expect(() => validateRulePack({ ...customPack(), siteId: 'amazon' })).toThrow('Rule packs are not supported for amazon');
+    expect(() => validateRulePack({ ...customPack(), rules: { ...customPack().rules, seller: 'shop' } }))
+      .toThrow('Rule pack has invalid seller selectors');
+    expect(() => validateRulePack({ ...customPack(), rules: { ...customPack().rules, price: ['!!price'] } }))
+      .toThrow('Rule pack has an invalid price selector: !!price');
+    expect(() => validateRulePack({ ...customPack(), rules: { ...customPack().rules, priceInner: { 'div.price--y2': 3 } } }))
+      .toThrow('Rule pack has invalid priceInner selectors');
+  });
+
+  it('should keep the inner price selectors of the bundled pack', () => {
+    expect(validateRulePack(bundled).rules.priceInner).toEqual(bundled.rules.priceInner);
+  });
+});
+
+describe('editRulePack', () => {
+  it('should bump the revision and remember the bundled version it started from', () => {
+    const edited = editRulePack(bundled, customPack().rules, 1000);
+
+    expect(edited).toMatchObject({ siteId: 'rakuten', version: bundled.version + 1, baseVersion: bundled.version, updatedAt: 1000 });
+    expect(editRulePack(edited, bundled.rules, 2000)).toMatchObject({ version: bundled.version + 2, baseVersion: bundled.version });
+  });
+
+  it('should flag edits made before the bundled pack was updated', () => {
+    expect(isRulePackOutdated(bundled)).toBe(false);
+    expect(isRulePackOutdated(customPack())).toBe(false);
+    expect(isRulePackOutdated(customPack({ baseVersion: bundled.version - 1 }))).toBe(true);
+  });
+});
+
+describe('testRules', () => {
+  it('should report what each selector finds', () => {
+    const doc = parseDocument('<meta property="shop:name" content="サンプルショップ"><h1>Item</h1><div class="price2">2,980円</div>');
+
+    const report = testRules(doc, { title: ['.missing', 'h1'], price: ['.price2'], availability: ['!!bad'], seller: ['meta[property="shop:name"]'] });
+
+    expect(report.title).toEqual([
+      { selector: '.missing', valid: true, text: null },
+      { selector: 'h1', valid: true, text: 'Item' }
+    ]);
+    expect(report.price[0].text).toBe('2,980円');
+    expect(report.availability[0]).toEqual({ selector: '!!bad', valid: false, text: null });
+    expect(report.seller[0].text).toBe('サンプルショップ');
+  });
+});
+
+describe('rule pack storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should fall back to the bundled pack', async () => {
+    (chrome.storage.local.get as any).mockResolvedValueOnce({});
+
+    expect(await getRulePack('rakuten')).toBe(bundled);
+    expect(await getRulePack('amazon')).toBeNull();
+  });
+
+  it('should prefer a saved pack', async () => {
+    const pack = customPack();
+    (chrome.storage.local.get as any).mockResolvedValueOnce({ [RULE_PACKS_KEY]: { rakuten: pack } });
+
+    expect(await getRulePack('rakuten')).toEqual(pack);
+  });
+
+  it('should save and reset packs per site', async () => {
+    const pack = customPack();
+    (chrome.storage.local.get as any)
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce({ [RULE_PACKS_KEY]: { rakuten: pack } });
+
+    await saveRulePack(pack);
+    await resetRulePack('rakuten');
+
+    expect(chrome.storage.local.set).toHaveBeenNthCalledWith(1, { [RULE_PACKS_KEY]: { rakuten: pack } });
+    expect(chrome.storage.local.set).toHaveBeenNthCalledWith(2, { [RULE_PACKS_KEY]: {} });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DEFAULT_SETTINGS, getPricingOptions, getSettings, updateSettings } from '../../src/lib/settings.js';
+
+describe('settings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return defaults when nothing is stored', async () => {
+    (chrome.storage.sync.get as any).mockResolvedValue({});
+
+    expect(await getSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should merge stored values over the defaults', async () => {
+    (chrome.storage.sync.get as any).mockResolvedValue({
+      autoTrack: false,
+      historyRetentionDays: 90,
+      defaultAlerts: { enabled: true }
+    });
+
+    const settings = await getSettings();
+
+    expect(settings.autoTrack).toBe(false);
+    expect(settings.trackingEnabled).toBe(true);
+    expect(settings.historyRetentionDays).toBe(90);
+    expect(settings.defaultAlerts).toEqual({ enabled: true, threshold: 0.1, type: 'both' });
+  });
+
+  it('should write updates to sync storage', async () => {
+    await updateSettings({ debugMode: true });
+
+    expect(chrome.storage.sync.set).toHaveBeenCalledWith({ debugMode: true });
+  });
+
+  it('should read the price basis and base point rate', async () => {
+    (chrome.storage.sync.get as any).mockResolvedValue({ priceBasis: 'effective' });
+
+    expect(await getPricingOptions()).toEqual({ basis: 'effective', basePointRate: 1 });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  SITE_ADAPTERS,
+  getProductId,
+  getProductIdFromUrl,
+  getSiteAdapter,
+  getSiteIdFromProductId
+} from '../../src/lib/sites/index.js';
+
+const manifest = JSON.parse(readFileSync(resolve(__dirname, '../../public/manifest.json'), 'utf-8'));
+
+describe('getSiteAdapter', () => {
+  it('should pick the adapter for the page host', () => {
+    expect(getSiteAdapter('https://item.rakuten.co.jp/shop/item/')?.id).toBe('rakuten');
+    expect(getSiteAdapter('https://books.rakuten.co.jp/rb/17654321/')?.id).toBe('rakuten-books');
+    expect(getSiteAdapter('https://brandavenue.rakuten.co.jp/item/AB1234/')?.id).toBe('rakuten-fashion');
+    expect(getSiteAdapter('https://www.amazon.co.jp/dp/B0ABCD1234')?.id).toBe('amazon');
+    expect(getSiteAdapter('https://store.shopping.yahoo.co.jp/store/item.html')?.id).toBe('yahoo');
+    expect(getSiteAdapter('https://example.com/product')).toBeNull();
+    expect(getSiteAdapter('not a url')).toBeNull();
+  });
+});
+
+describe('getProductId', () => {
+  it('should prefer the catalogue code on sites keyed by it', () => {
+    expect(getProductId('https://books.rakuten.co.jp/rb/17654321/', '9784000000001')).toBe('rakuten-books:9784000000001');
+    expect(getProductId('https://books.rakuten.co.jp/rb/17654321/')).toBe('rakuten-books:17654321');
+    expect(getProductId('https://item.rakuten.co.jp/shop/item/', '4988000000001')).toBe('rakuten:shop_item');
+  });
+});
+
+describe('getProductIdFromUrl', () => {
+  it('should namespace ids by site', () => {
+    expect(getProductIdFromUrl('https://item.rakuten.co.jp/shop/item/')).toBe('rakuten:shop_item');
+    expect(getProductIdFromUrl('https://books.rakuten.co.jp/rb/17654321/')).toBe('rakuten-books:17654321');
+    expect(getProductIdFromUrl('https://brandavenue.rakuten.co.jp/item/AB1234/')).toBe('rakuten-fashion:AB1234');
+    expect(getProductIdFromUrl('https://www.amazon.co.jp/Some-Slug/dp/B0ABCD1234/')).toBe('amazon:B0ABCD1234');
+    expect(getProductIdFromUrl('https://store.shopping.yahoo.co.jp/store/item.html')).toBe('yahoo:store_item');
+  });
+
+  it('should return null for pages that are not products', () => {
+    expect(getProductIdFromUrl('https://www.amazon.co.jp/gp/cart/view.html')).toBeNull();
+    expect(getProductIdFromUrl('https://example.com/product')).toBeNull();
+  });
+});
+
+describe('getSiteIdFromProductId', () => {
+  it('should read the site back from an id', () => {
+    expect(getSiteIdFromProductId('amazon:B0ABCD1234')).toBe('amazon');
+    expect(getSiteIdFromProductId('shop_item')).toBeNull();
+    expect(getSiteIdFromProductId('unknown:item')).toBeNull();
+  });
+});
+
+describe('manifest', () => {
+  it('should inject the content script and grant host access on every supported site', () => {
+    const patterns = SITE_ADAPTERS.flatMap(adapter => adapter.matchPatterns);
+
+    expect(manifest.content_scripts[0].matches).toEqual(expect.arrayContaining(patterns));
+    expect(manifest.host_permissions).toEqual(expect.arrayContaining(patterns));
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readdirSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  MAX_SNAPSHOTS,
+  SNAPSHOTS_KEY,
+  createSnapshot,
+  deleteSnapshot,
+  getReplayChanges,
+  replaySnapshot,
+  sanitizeDocument,
+  sanitizeUrl,
+  saveSnapshot,
+  validateSnapshot,
+  type PageSnapshot
+} from '../../src/lib/snapshots.js';
+import { diagnosePage } from '../../src/lib/diagnostics.js';
+import { rakutenAdapter } from '../../src/lib/sites/rakuten.js';
+
+const FIXTURES = resolve(__dirname, '../fixtures/snapshots');
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+const PAGE = `<!DOCTYPE html><html><head>
+  <script src="https://tracker.example/t.js?uid=42"></script>
+  <script type="application/ld+json">{"@type":"Product","name":"Tumbler"}</script>
+  <meta name="csrf-token" content="secret">
+  <link rel="stylesheet" href="/style.css">
+</head><body>
+  <div class="header-member-info">山田 太郎 様 保有ポイント 1,234</div>
+  <!-- session 9f8e7d -->
+  <span class="normal_reserve_item_name" onclick="track()">Tumbler</span>
+  <div class="price2">2,980円</div>
+  <select name="choice1"><option value="">選択してください</option><option value="white">White</option></select>
+  <input type="hidden" name="token" value="abc">
+  <input type="text" name="mail" value="taro@example.com">
+  <a href="/shop123/item456/?scid=af_sp_etc&iasid=xyz#review">Item</a>
+  <p>Contact yamada.taro@example.co.jp</p>
+  <div id="rakuten-price-tracker-fab"><button>⚠️ Detection Issue</button></div>
+</body></html>`;
+
+const snapshot = (overrides: Partial<PageSnapshot> = {}): PageSnapshot => {
+  const doc = parseDocument(PAGE);
+  const report = diagnosePage(doc, 'https://item.rakuten.co.jp/shop123/item456/?scid=af', rakutenAdapter, 'none');
+  return { ...createSnapshot(doc, report, 1000), ...overrides };
+};
+
+describe('sanitizeDocument', () => {
+  it('should strip scripts, personal details and tracking parameters', () => {
+    const doc = parseDocument(PAGE);
+    (doc.querySelector('select') as HTMLSelectElement).selectedIndex = 1;
+
+    const html = sanitizeDocument(doc);
+
+    expect(html).not.toMatch(/tracker\.example|csrf|stylesheet|山田|session|onclick|name="token"|scid|iasid|#review|@example|Detection Issue/);
+    expect(html).toContain('application/ld+json');
+    expect(html).toContain('href="/shop123/item456/"');
+    expect(html).toContain('Contact [email]');
+    expect(html).toMatch(/<option value="white" selected/);
+    // The live page is left alone
+    expect(doc.querySelector('.header-member-info')).not.toBeNull();
+  });
+
+  it('should drop query strings and fragments from urls', () => {
+    expect(sanitizeUrl('https://item.rakuten.co.jp/shop/item/?scid=af#top')).toBe('https://item.rakuten.co.jp/shop/item/');
+  });
+});
+
+describe('replaySnapshot', () => {
+  it('should run the extraction against the stored page', () => {
+    const replayed = replaySnapshot(snapshot());
+
+    expect(replayed.detection).toBe('replay');
+    expect(replayed.url).toBe('https://item.rakuten.co.jp/shop123/item456/');
+    expect(replayed.fields.title).toMatchObject({ source: 'json-ld', value: 'Tumbler' });
+    expect(replayed.fields.price).toMatchObject({ source: 'selector', selector: '.price2', value: 2980 });
+  });
+
+  it('should replay with edited rules', () => {
+    const rules = { ...rakutenAdapter.rules, price: ['div.price--new'] };
+
+    expect(replaySnapshot(snapshot(), rules).fields.price.value).toBeNull();
+  });
+
+  it('should report fields that differ from the expected values', () => {
+    const stored = snapshot({ expected: { price: 2480 } });
+
+    expect(getReplayChanges(stored, replaySnapshot(stored))).toEqual(['price']);
+  });
+});
+
+// Exported snapshots dropped into tests/fixtures/snapshots become regression tests
+describe('snapshot fixtures', () => {
+  const files = readdirSync(FIXTURES).filter(file => file.endsWith('.json'));
+
+  it.each(files)('should extract %s as expected', file => {
+    const stored = validateSnapshot(JSON.parse(readFileSync(resolve(FIXTURES, file), 'utf-8')));
+
+    expect(getReplayChanges(stored, replaySnapshot(stored))).toEqual([]);
+  });
+});
+
+describe('validateSnapshot', () => {
+  it('should reject files that are not snapshots', () => {
+    expect(() => validateSnapshot({ format: 2 })).toThrow('Unsupported snapshot format');
+    expect(() => validateSnapshot({ ...snapshot(), url: 'file:///page.html' })).toThrow('Snapshot is missing its page URL');
+    expect(() => validateSnapshot({ ...snapshot(), html: '' })).toThrow('Snapshot has no page content');
+  });
+});
+
+describe('snapshot storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should keep the newest snapshots first and cap them', async () => {
+    const older = Array.from({ length: MAX_SNAPSHOTS }, (_, index) => ({ capturedAt: index }));
+    const newest = snapshot({ capturedAt: 9999 });
+    (chrome.storage.local.get as any).mockResolvedValueOnce({ [SNAPSHOTS_KEY]: older });
+
+    await saveSnapshot(newest);
+
+    expect(chrome.storage.local.set).toHaveBeenCalledWith({ [SNAPSHOTS_KEY]: [newest, ...older.slice(0, MAX_SNAPSHOTS - 1)] });
+  });
+
+  it('should delete a snapshot by capture time', async () => {
+    (chrome.storage.local.get as any).mockResolvedValueOnce({ [SNAPSHOTS_KEY]: [{ capturedAt: 1 }, { capturedAt: 2 }] });
+
+    await deleteSnapshot(1);
+
+    expect(chrome.storage.local.set).toHaveBeenCalledWith({ [SNAPSHOTS_KEY]: [{ capturedAt: 2 }] });
+  });
+});
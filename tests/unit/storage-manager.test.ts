@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ProductStorageManager } from '../../src/lib/storage-manager.js';
+import { CURRENT_SCHEMA_VERSION } from '../../src/lib/migrations.js';
 
 describe('ProductStorageManager', () => {
   let storageManager: ProductStorageManager;
@@ -27,13 +28,13 @@ describe('ProductStorageManager', () => {
     it('should generate ID from Rakuten URL', () => {
       const url = 'https://item.rakuten.co.jp/shop123/item456/';
       const result = storageManager.generateProductId(url);
-      expect(result).toBe('shop123_item456');
+      expect(result).toBe('rakuten:shop123_item456');
     });
 
     it('should handle URL with extra parameters', () => {
       const url = 'https://item.rakuten.co.jp/shop123/item456/?param=value';
       const result = storageManager.generateProductId(url);
-      expect(result).toBe('shop123_item456');
+      expect(result).toBe('rakuten:shop123_item456');
     });
 
     it('should fallback to base64 hash for non-standard URLs', () => {
@@ -58,20 +59,20 @@ describe('ProductStorageManager', () => {
       
       const result = await storageManager.addProduct(mockProductData);
       
-      expect(result.id).toBe('shop123_item456');
+      expect(result.id).toBe('rakuten:shop123_item456');
       expect(result.isNew).toBe(true);
       expect(chrome.storage.local.set).toHaveBeenCalledTimes(2); // products + history
     });
 
     it('should return existing product if already tracking', async () => {
       const existingProducts = {
-        'shop123_item456': { ...mockProductData, id: 'shop123_item456' }
+        'rakuten:shop123_item456': { ...mockProductData, id: 'rakuten:shop123_item456' }
       };
       chrome.storage.local.get.mockResolvedValue({ trackedProducts: existingProducts });
       
       const result = await storageManager.addProduct(mockProductData);
       
-      expect(result.id).toBe('shop123_item456');
+      expect(result.id).toBe('rakuten:shop123_item456');
       expect(result.isNew).toBe(false);
       expect(chrome.storage.local.set).not.toHaveBeenCalled();
     });
@@ -82,7 +83,7 @@ describe('ProductStorageManager', () => {
       await storageManager.addProduct(mockProductData);
       
       const setCall = chrome.storage.local.set.mock.calls[0][0];
-      const addedProduct = setCall.trackedProducts['shop123_item456'];
+      const addedProduct = setCall.trackedProducts['rakuten:shop123_item456'];
       
       expect(addedProduct.alerts).toEqual({
         enabled: false,
@@ -90,6 +91,49 @@ describe('ProductStorageManager', () => {
         type: 'both'
       });
     });
+
+    it('should use the configured default alert settings', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({ trackedProducts: {} });
+      (chrome.storage.sync.get as any).mockResolvedValueOnce({
+        defaultAlerts: { enabled: true, threshold: 0.05, type: 'decrease' }
+      });
+      
+      await storageManager.addProduct(mockProductData);
+      
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.trackedProducts['rakuten:shop123_item456'].alerts).toEqual({
+        enabled: true,
+        threshold: 0.05,
+        type: 'decrease'
+      });
+    });
+  });
+
+  describe('catalogue codes', () => {
+    const book = {
+      url: 'https://books.rakuten.co.jp/rb/17654321/',
+      title: 'Book',
+      price: 3080,
+      shopId: '',
+      itemCode: '17654321',
+      productCode: '9784000000001'
+    };
+
+    it('should key products by the code their page showed', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({ trackedProducts: {} });
+
+      const result = await storageManager.addProduct(book);
+
+      expect(result.id).toBe('rakuten-books:9784000000001');
+    });
+
+    it('should find them again from the url they were tracked from', async () => {
+      const tracked = { ...book, id: 'rakuten-books:9784000000001' };
+      (chrome.storage.local.get as any).mockResolvedValue({ trackedProducts: { [tracked.id]: tracked } });
+
+      expect(await storageManager.findProductByUrl('https://books.rakuten.co.jp/rb/17654321/?l-id=top')).toEqual(tracked);
+      expect(await storageManager.findProductByUrl('https://books.rakuten.co.jp/rb/99999999/')).toBeNull();
+    });
   });
 
   describe('getAllProducts', () => {
@@ -141,6 +185,17 @@ describe('ProductStorageManager', () => {
       expect(result.createdAt).toBe(1000000); // Should preserve original
     });
 
+    it('should merge alert settings instead of replacing them', async () => {
+      const mockProducts = {
+        'test123': { ...existingProduct, alerts: { enabled: true, threshold: 0.1, type: 'both' } }
+      };
+      (chrome.storage.local.get as any).mockResolvedValue({ trackedProducts: mockProducts });
+      
+      const result = await storageManager.updateProduct('test123', { alerts: { targetPrice: 3980 } as any });
+      
+      expect(result.alerts).toEqual({ enabled: true, threshold: 0.1, type: 'both', targetPrice: 3980 });
+    });
+
     it('should throw error for non-existent product', async () => {
       chrome.storage.local.get.mockResolvedValue({ trackedProducts: {} });
       
@@ -166,6 +221,280 @@ describe('ProductStorageManager', () => {
         timestamp: 1000000000
       });
     });
+
+    it('should store points and shipping with the price point', async () => {
+      (chrome.storage.local.get as any).mockResolvedValueOnce({ priceHistory: {} });
+      
+      await storageManager.addPricePoint('test123', 1500, 'available', { pointMultiplier: 5, shippingCost: 0 });
+      
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.priceHistory.test123[0]).toEqual({
+        price: 1500,
+        timestamp: 1000000000,
+        availability: 'available',
+        pointMultiplier: 5,
+        shippingCost: 0
+      });
+    });
+
+    it('should notify price point listeners with the previous point', async () => {
+      const listener = vi.fn();
+      storageManager.onPricePoint(listener);
+      (chrome.storage.local.get as any).mockResolvedValue({
+        priceHistory: { test123: [{ price: 1000, timestamp: 999999000 }] }
+      });
+      
+      await storageManager.addPricePoint('test123', 1500);
+      
+      expect(listener).toHaveBeenCalledWith(
+        'test123',
+        { price: 1500, timestamp: 1000000000 },
+        { price: 1000, timestamp: 999999000 }
+      );
+    });
+  });
+
+  describe('history summary', () => {
+    it('should update the product summary in the same write as the history', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(3000);
+      (chrome.storage.local.get as any).mockResolvedValue({
+        trackedProducts: { test123: { id: 'test123', title: 'Test', price: 1000 } },
+        priceHistory: { test123: [{ price: 1000, timestamp: 1000 }] }
+      });
+      
+      await storageManager.addPricePoint('test123', 800);
+      
+      expect(chrome.storage.local.set).toHaveBeenCalledTimes(1);
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.trackedProducts.test123.historySummary).toEqual(expect.objectContaining({
+        latestPrice: 800,
+        lowestPrice: 800,
+        lastRecordedAt: 3000
+      }));
+    });
+
+    it('should ignore attempts to set the summary directly', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        trackedProducts: { test123: { id: 'test123', title: 'Test', price: 1000 } }
+      });
+      
+      const result = await storageManager.updateProduct('test123', { historySummary: { lowestPrice: 1 } as any });
+      
+      expect(result.historySummary).toBeUndefined();
+    });
+
+    it('should compute summaries for imported products', async () => {
+      const data = {
+        version: '1.0.0',
+        products: { a: { id: 'a', url: 'https://item.rakuten.co.jp/shop/a/', title: 'A', price: 100, createdAt: 1, updatedAt: 1 } },
+        priceHistory: { a: [{ price: 120, timestamp: 1000 }, { price: 100, timestamp: 2000 }] }
+      };
+      
+      await storageManager.importData(JSON.stringify(data));
+      
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.trackedProducts['rakuten:a'].historySummary).toEqual(expect.objectContaining({
+        lowestPrice: 100,
+        highestPrice: 120
+      }));
+    });
+  });
+
+  describe('history retention', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const now = 1000 * day;
+
+    beforeEach(() => {
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    it('should roll points older than the configured retention into weekly buckets', async () => {
+      (chrome.storage.sync.get as any).mockResolvedValueOnce({ historyRetentionDays: 90 });
+      (chrome.storage.local.get as any).mockResolvedValue({
+        priceHistory: { test123: [{ price: 900, timestamp: now - 100 * day }, { price: 950, timestamp: now - 10 * day }] }
+      });
+      
+      await storageManager.addPricePoint('test123', 1000);
+      
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.priceHistory.test123.map((point: any) => point.price)).toEqual([950, 1000]);
+      expect(setCall.priceRollups.test123).toEqual([
+        expect.objectContaining({ min: 900, max: 900, average: 900, count: 1 })
+      ]);
+    });
+
+    it('should roll up every product when retention is shortened', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        priceHistory: {
+          a: [{ price: 900, timestamp: now - 200 * day }, { price: 950, timestamp: now - 10 * day }],
+          b: [{ price: 500, timestamp: now - 181 * day }]
+        },
+        priceRollups: {
+          b: [{ weekStart: 0, min: 400, max: 600, average: 500, count: 2 }]
+        }
+      });
+      
+      const rolledUp = await storageManager.rollupHistory(180);
+      
+      expect(rolledUp).toBe(2);
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.priceHistory).toEqual({ a: [{ price: 950, timestamp: now - 10 * day }], b: [] });
+      expect(setCall.priceRollups.a).toHaveLength(1);
+      expect(setCall.priceRollups.b).toHaveLength(2);
+    });
+
+    it('should leave storage alone when nothing has expired', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        priceHistory: { a: [{ price: 950, timestamp: now - 10 * day }] }
+      });
+      
+      expect(await storageManager.rollupHistory(0)).toBe(0);
+      expect(await storageManager.rollupHistory(180)).toBe(0);
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
+
+    it('should merge rollups and recent points into one series', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        priceHistory: { a: [{ price: 950, timestamp: now - 10 * day }] },
+        priceRollups: { a: [{ weekStart: 4 * day, min: 800, max: 1000, average: 900, count: 3 }] }
+      });
+      
+      const series = await storageManager.getPriceSeries('a');
+      
+      expect(series).toEqual([
+        { price: 900, timestamp: 4 * day, min: 800, max: 1000, rolledUp: true },
+        { price: 950, timestamp: now - 10 * day }
+      ]);
+    });
+  });
+
+  describe('variants', () => {
+    let store: Record<string, any>;
+    const alerts = { enabled: true, threshold: 0.1, type: 'both' as const };
+    const selection = { id: 'white/M', label: 'ホワイト / M' };
+
+    beforeEach(() => {
+      store = {
+        trackedProducts: {
+          p: { id: 'p', url: 'https://item.rakuten.co.jp/shop/p/', title: 'Shirt', price: 3000, shopId: 'shop', itemCode: 'p', createdAt: 1, updatedAt: 1, alerts }
+        }
+      };
+      (chrome.storage.local.get as any).mockImplementation(async () => structuredClone(store));
+      (chrome.storage.local.set as any).mockImplementation(async (items: Record<string, any>) => {
+        Object.assign(store, structuredClone(items));
+      });
+    });
+
+    it('should list a newly seen variant without recording its price', async () => {
+      const added = await storageManager.recordVariantObservation('p', selection, 2800, 'available');
+      
+      expect(added).toBe(false);
+      expect(store.trackedProducts.p.variants['white/M']).toEqual(expect.objectContaining({
+        label: 'ホワイト / M',
+        price: 2800,
+        availability: 'available',
+        tracked: false
+      }));
+      expect(store.priceHistory).toBeUndefined();
+    });
+
+    it('should record tracked variants under their own history', async () => {
+      await storageManager.recordVariantObservation('p', selection, 2800, 'available');
+      await storageManager.updateVariant('p', 'white/M', { tracked: true });
+      
+      const added = await storageManager.recordVariantObservation('p', selection, 2500, 'available');
+      
+      expect(added).toBe(true);
+      expect(store.priceHistory['p#white/M'].map((point: any) => point.price)).toEqual([2800, 2500]);
+      expect(store.priceHistory.p).toBeUndefined();
+      expect(store.trackedProducts.p.variants['white/M'].historySummary).toEqual(expect.objectContaining({
+        latestPrice: 2500,
+        lowestPrice: 2500,
+        highestPrice: 2800
+      }));
+    });
+
+    it('should give a variant its own alert settings', async () => {
+      await storageManager.recordVariantObservation('p', selection, 2800);
+      
+      const updated = await storageManager.updateVariant('p', 'white/M', { alerts: { targetPrice: 2000 } });
+      expect(updated.variants!['white/M'].alerts).toEqual({ ...alerts, targetPrice: 2000 });
+      
+      const reset = await storageManager.updateVariant('p', 'white/M', { alerts: null });
+      expect(reset.variants!['white/M'].alerts).toBeUndefined();
+    });
+
+    it('should reject unknown variants', async () => {
+      await expect(storageManager.updateVariant('p', 'missing', { tracked: true }))
+        .rejects.toThrow('Variant missing of product p not found');
+    });
+
+    it('should delete variant histories with the product', async () => {
+      store.priceHistory = { p: [], 'p#white/M': [], other: [] };
+      store.priceRollups = { 'p#white/M': [] };
+      
+      await storageManager.deleteProduct('p');
+      
+      expect(Object.keys(store.priceHistory)).toEqual(['other']);
+      expect(store.priceRollups).toEqual({});
+    });
+  });
+
+  describe('migrateStorage', () => {
+    it('should stamp the current version on a fresh install', async () => {
+      const result = await storageManager.migrateStorage();
+      
+      expect(result).toBeNull();
+      expect(chrome.storage.local.set).toHaveBeenCalledWith({ schemaVersion: CURRENT_SCHEMA_VERSION });
+    });
+
+    it('should migrate unversioned data from the legacy schema', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        trackedProducts: {
+          test123: { id: 'test123', title: 'Test', price: 1000, priceHistory: [{ price: 1000, timestamp: 1000 }] }
+        }
+      });
+      
+      const result = await storageManager.migrateStorage();
+      
+      expect(result).toEqual(expect.objectContaining({ from: 1, to: CURRENT_SCHEMA_VERSION }));
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(setCall.priceHistory.test123).toEqual([{ price: 1000, timestamp: 1000 }]);
+    });
+
+    it('should carry alert state over to namespaced ids', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        schemaVersion: 3,
+        trackedProducts: { shop_item: { id: 'shop_item', url: 'https://item.rakuten.co.jp/shop/item/', title: 'Test', price: 1000 } },
+        alertState: { shop_item: { lastPointTimestamp: 1000, targetTriggered: true } }
+      });
+
+      await storageManager.migrateStorage();
+
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(setCall.alertState).toEqual({ 'rakuten:shop_item': { lastPointTimestamp: 1000, targetTriggered: true } });
+    });
+
+    it('should do nothing when already current', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({ schemaVersion: CURRENT_SCHEMA_VERSION, trackedProducts: {} });
+      
+      const result = await storageManager.migrateStorage();
+      
+      expect(result).toBeNull();
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearAllData', () => {
+    it('should remove products and history', async () => {
+      storageManager.cache.set('test123', {} as any);
+      
+      await storageManager.clearAllData();
+      
+      expect(chrome.storage.local.remove).toHaveBeenCalledWith(['trackedProducts', 'priceHistory', 'priceRollups']);
+      expect(storageManager.cache.size).toBe(0);
+    });
   });
 
   describe('daily price checking', () => {
@@ -249,10 +578,36 @@ describe('ProductStorageManager', () => {
         const result = await storageManager.addPricePointIfNew('test123', 1500);
         
         expect(result).toBe(true);
-        expect(storageManager.addPricePoint).toHaveBeenCalledWith('test123', 1500);
+        expect(storageManager.addPricePoint).toHaveBeenCalledWith('test123', 1500, undefined, {});
       });
 
-      it('should not add price when today\'s price already exists', async () => {
+      it('should add a point when availability changes after today\'s price', async () => {
+        const todayTimestamp = new Date('2024-03-15 10:00:00').getTime();
+        (chrome.storage.local.get as any).mockResolvedValue({
+          priceHistory: { test123: [{ price: 1500, timestamp: todayTimestamp, availability: 'out_of_stock' }] }
+        });
+        vi.spyOn(storageManager, 'addPricePoint').mockResolvedValue();
+        
+        const result = await storageManager.addPricePointIfNew('test123', 1500, 'available');
+        
+        expect(result).toBe(true);
+        expect(storageManager.addPricePoint).toHaveBeenCalledWith('test123', 1500, 'available', {});
+      });
+
+      it('should not add a point when availability is unchanged', async () => {
+        const todayTimestamp = new Date('2024-03-15 10:00:00').getTime();
+        (chrome.storage.local.get as any).mockResolvedValue({
+          priceHistory: { test123: [{ price: 1500, timestamp: todayTimestamp, availability: 'available' }] }
+        });
+        vi.spyOn(storageManager, 'addPricePoint').mockResolvedValue();
+        
+        const result = await storageManager.addPricePointIfNew('test123', 1500, 'available');
+        
+        expect(result).toBe(false);
+      });
+
+      it('should not add price when today\'s price already exists under the daily policy', async () => {
+        (chrome.storage.sync.get as any).mockResolvedValueOnce({ recordingPolicy: 'daily' });
         vi.spyOn(storageManager, 'hasTodaysPrice').mockResolvedValue(true);
         vi.spyOn(storageManager, 'addPricePoint').mockResolvedValue();
         
@@ -261,6 +616,49 @@ describe('ProductStorageManager', () => {
         expect(result).toBe(false);
         expect(storageManager.addPricePoint).not.toHaveBeenCalled();
       });
+
+      it('should record a price change later on the same day', async () => {
+        const morning = new Date('2024-03-15 09:00:00').getTime();
+        (chrome.storage.local.get as any).mockResolvedValue({
+          priceHistory: { test123: [{ price: 1500, timestamp: morning }] }
+        });
+        vi.spyOn(storageManager, 'addPricePoint').mockResolvedValue();
+        
+        const result = await storageManager.addPricePointIfNew('test123', 1200);
+        
+        expect(result).toBe(true);
+        expect(storageManager.addPricePoint).toHaveBeenCalledWith('test123', 1200, undefined, {});
+      });
+
+      it('should collapse a repeated observation into the last seen time', async () => {
+        const morning = new Date('2024-03-15 09:00:00').getTime();
+        (chrome.storage.local.get as any).mockResolvedValue({
+          priceHistory: { test123: [{ price: 1500, timestamp: morning }] }
+        });
+        vi.spyOn(storageManager, 'addPricePoint').mockResolvedValue();
+        
+        const result = await storageManager.addPricePointIfNew('test123', 1500);
+        
+        expect(result).toBe(false);
+        expect(storageManager.addPricePoint).not.toHaveBeenCalled();
+        const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+        expect(setCall.priceHistory.test123).toEqual([
+          { price: 1500, timestamp: morning, lastSeenAt: new Date('2024-03-15 14:30:00').getTime() }
+        ]);
+      });
+
+      it('should record a new point when the point multiplier changes', async () => {
+        const morning = new Date('2024-03-15 09:00:00').getTime();
+        (chrome.storage.local.get as any).mockResolvedValue({
+          priceHistory: { test123: [{ price: 1500, timestamp: morning, pointMultiplier: 1 }] }
+        });
+        vi.spyOn(storageManager, 'addPricePoint').mockResolvedValue();
+        
+        const result = await storageManager.addPricePointIfNew('test123', 1500, 'available', { pointMultiplier: 10 });
+        
+        expect(result).toBe(true);
+        expect(storageManager.addPricePoint).toHaveBeenCalledWith('test123', 1500, 'available', { pointMultiplier: 10 });
+      });
     });
   });
 
@@ -279,16 +677,18 @@ describe('ProductStorageManager', () => {
       
       expect(result).toEqual({
         version: '1.0.0',
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         exportDate: '2024-01-01T00:00:00.000Z',
         products: mockProducts,
-        priceHistory: mockHistory
+        priceHistory: mockHistory,
+        priceRollups: {}
       });
     });
 
     it('should import valid data successfully', async () => {
       const validData = {
         version: '1.0.0',
-        products: { 'test123': { id: 'test123', title: 'Test' } },
+        products: { 'test123': { id: 'test123', url: 'https://item.rakuten.co.jp/shop/test123/', title: 'Test', price: 1000, createdAt: 1, updatedAt: 1 } },
         priceHistory: { 'test123': [{ price: 1000, timestamp: 1000000 }] }
       };
       
@@ -306,5 +706,36 @@ describe('ProductStorageManager', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe('Invalid import format');
     });
+
+    it('should merge with existing products by default', async () => {
+      (chrome.storage.local.get as any).mockResolvedValue({
+        trackedProducts: { mine: { id: 'mine', url: 'https://item.rakuten.co.jp/shop/mine/', title: 'Mine', price: 500 } },
+        priceHistory: { mine: [{ price: 500, timestamp: 1000 }] }
+      });
+      const data = {
+        version: '1.0.0',
+        products: { theirs: { id: 'theirs', url: 'https://item.rakuten.co.jp/shop/theirs/', title: 'Theirs', price: 800, createdAt: 1, updatedAt: 1 } },
+        priceHistory: { theirs: [{ price: 800, timestamp: 2000 }] }
+      };
+      
+      const result = await storageManager.importData(JSON.stringify(data));
+      
+      expect(result.success).toBe(true);
+      const setCall = (chrome.storage.local.set as any).mock.calls[0][0];
+      expect(Object.keys(setCall.trackedProducts).sort()).toEqual(['mine', 'rakuten:theirs']);
+      expect(setCall.priceHistory.mine).toEqual([{ price: 500, timestamp: 1000 }]);
+    });
+
+    it('should preview without writing anything', async () => {
+      const data = {
+        version: '1.0.0',
+        products: { a: { id: 'a', url: 'https://item.rakuten.co.jp/shop/a/', title: 'A', price: 100, createdAt: 1, updatedAt: 1 } }
+      };
+      
+      const result = await storageManager.previewImport(JSON.stringify(data), 'replace');
+      
+      expect(result.preview).toEqual(expect.objectContaining({ mode: 'replace', newCount: 1 }));
+      expect(chrome.storage.local.set).not.toHaveBeenCalled();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseStructuredData, readStructuredData, resolveFieldSources } from '../../src/lib/sites/structured-data.js';
+
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+const microdataPage = `
+  <div itemscope itemtype="https://schema.org/BreadcrumbList">
+    <span itemprop="name">ホーム</span>
+  </div>
+  <div itemscope itemtype="https://schema.org/Product">
+    <h1 itemprop="name">ステンレス タンブラー</h1>
+    <img itemprop="image" src="https://example.com/tumbler.jpg">
+    <meta itemprop="gtin13" content="4901234567894">
+    <div itemprop="brand" itemscope itemtype="https://schema.org/Brand"><span itemprop="name">ACME</span></div>
+    <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+      <span itemprop="price" content="2980">¥2,980</span>
+      <meta itemprop="priceCurrency" content="JPY">
+      <link itemprop="availability" href="https://schema.org/InStock">
+    </div>
+  </div>`;
+
+describe('readStructuredData', () => {
+  it('should read product microdata and ignore other item scopes', () => {
+    const { product, sources } = readStructuredData(parseDocument(microdataPage));
+
+    expect(product).toEqual({
+      title: 'ステンレス タンブラー',
+      price: 2980,
+      currency: 'JPY',
+      availability: 'available',
+      gtin: '4901234567894',
+      brand: 'ACME',
+      images: ['https://example.com/tumbler.jpg']
+    });
+    expect(sources.title).toBe('microdata');
+  });
+
+  it('should let JSON-LD win and microdata fill the gaps', () => {
+    const doc = parseDocument(jsonLd({
+      '@type': 'Product',
+      name: 'JSON-LD タンブラー',
+      image: [{ url: 'https://example.com/a.jpg' }, 'https://example.com/b.jpg'],
+      offers: { '@type': 'AggregateOffer', lowPrice: 2480, highPrice: 2980 }
+    }) + microdataPage);
+
+    const { product, sources } = readStructuredData(doc);
+
+    expect(product.title).toBe('JSON-LD タンブラー');
+    expect(product.price).toBe(2480);
+    expect(product.images).toEqual(['https://example.com/a.jpg', 'https://example.com/b.jpg']);
+    expect(product.currency).toBe('JPY');
+    expect(sources).toMatchObject({ title: 'json-ld', price: 'json-ld', images: 'json-ld', currency: 'microdata' });
+  });
+
+  it('should skip malformed JSON-LD blocks', () => {
+    const doc = parseDocument('<script type="application/ld+json">{ broken</script>'
+      + jsonLd([{ '@type': 'Organization', name: 'Shop' }, { '@type': ['Product'], name: 'Second block' }]));
+
+    expect(readStructuredData(doc)).toEqual({ product: { title: 'Second block' }, sources: { title: 'json-ld' } });
+  });
+
+  it('should find nothing on pages without structured data', () => {
+    expect(readStructuredData(parseDocument('<h1>Plain page</h1>'))).toEqual({ product: {}, sources: {} });
+  });
+});
+
+describe('parseStructuredData', () => {
+  it('should read JSON-LD and itemprop tags from page text', () => {
+    const html = jsonLd({ '@type': 'Product', brand: 'ACME', offers: [{ '@type': 'Offer', price: 1280 }] })
+      + '<meta itemprop="name" content="Tea &amp; Cups"><link itemprop="availability" href="http://schema.org/SoldOut">';
+
+    expect(parseStructuredData(html)).toEqual({
+      product: { title: 'Tea & Cups', price: 1280, availability: 'out_of_stock', brand: 'ACME' },
+      sources: { title: 'microdata', price: 'json-ld', availability: 'microdata', brand: 'json-ld' }
+    });
+  });
+});
+
+describe('resolveFieldSources', () => {
+  it('should credit selectors with fields structured data lacked', () => {
+    expect(resolveFieldSources({ price: 'json-ld' }, { title: 'Item', price: 1000, availability: 'unknown' }))
+      .toEqual({ title: 'selector', price: 'json-ld' });
+  });
+});
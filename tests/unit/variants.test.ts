@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createVariantSelection,
+  getHistoryKeys,
+  getVariantKey,
+  parseHistoryKey,
+  toVariantProduct
+} from '../../src/lib/variants.js';
+
+const product = {
+  id: 'rakuten:shop_item',
+  url: 'https://item.rakuten.co.jp/shop/item/',
+  title: 'Shirt',
+  price: 3000,
+  shopId: 'shop',
+  itemCode: 'item',
+  createdAt: 1,
+  updatedAt: 1,
+  alerts: { enabled: true, threshold: 0.1, type: 'both' as const },
+  historySummary: { latestPrice: 3000, lowestPrice: 3000, highestPrice: 3000, pointCount: 1, firstRecordedAt: 1, lastRecordedAt: 1 },
+  variants: {
+    'white/M': { id: 'white/M', label: 'ホワイト / M', price: 2800, availability: 'available', tracked: true, createdAt: 1, updatedAt: 1 }
+  }
+};
+
+describe('history keys', () => {
+  it('should round-trip product and variant keys', () => {
+    expect(getVariantKey('rakuten:shop_item', 'white/M')).toBe('rakuten:shop_item#white/M');
+    expect(parseHistoryKey('rakuten:shop_item#white/M')).toEqual({ productId: 'rakuten:shop_item', variantId: 'white/M' });
+    expect(parseHistoryKey('rakuten:shop_item')).toEqual({ productId: 'rakuten:shop_item', variantId: null });
+  });
+
+  it('should list the product key before its variants', () => {
+    expect(getHistoryKeys(product)).toEqual(['rakuten:shop_item', 'rakuten:shop_item#white/M']);
+    expect(getHistoryKeys({ ...product, variants: undefined })).toEqual(['rakuten:shop_item']);
+  });
+});
+
+describe('createVariantSelection', () => {
+  it('should join the chosen options in order', () => {
+    expect(createVariantSelection([
+      { value: 'white', label: 'ホワイト' },
+      { value: '', label: ' M サイズ ' }
+    ])).toEqual({ id: 'white/M-サイズ', label: 'ホワイト / M サイズ' });
+  });
+
+  it('should return null without options', () => {
+    expect(createVariantSelection([])).toBeNull();
+  });
+});
+
+describe('toVariantProduct', () => {
+  it('should present a variant with its own price and the product settings', () => {
+    const view = toVariantProduct(product, 'white/M');
+
+    expect(view).toEqual(expect.objectContaining({
+      id: 'rakuten:shop_item#white/M',
+      title: 'Shirt (ホワイト / M)',
+      price: 2800,
+      availability: 'available',
+      alerts: product.alerts
+    }));
+    expect(view?.historySummary).toBeUndefined();
+    expect(view?.variants).toBeUndefined();
+  });
+
+  it('should return null for unknown variants', () => {
+    expect(toVariantProduct(product, 'black/L')).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { yahooShoppingAdapter } from '../../src/lib/sites/yahoo.js';
+
+const html = readFileSync(resolve(__dirname, '../fixtures/sites/yahoo-item.html'), 'utf-8');
+const parseDocument = (markup: string) => new DOMParser().parseFromString(markup, 'text/html');
+
+describe('yahooShoppingAdapter', () => {
+  it('should read the store and item code from the url', () => {
+    expect(yahooShoppingAdapter.parseProductUrl('https://store.shopping.yahoo.co.jp/sample-store/coffee-500.html?sc_i=shp'))
+      .toEqual({ shopId: 'sample-store', itemCode: 'coffee-500' });
+    expect(yahooShoppingAdapter.parseProductUrl('https://store.shopping.yahoo.co.jp/sample-store/')).toBeNull();
+  });
+
+  it('should extract product details from the live page', () => {
+    const doc = parseDocument(html);
+
+    expect(yahooShoppingAdapter.getTitle(doc)).toBe('コーヒー豆 深煎り 500g');
+    expect(yahooShoppingAdapter.getPrice(doc)).toBe(1680);
+    expect(yahooShoppingAdapter.getAvailability(doc)).toBe('available');
+    expect(yahooShoppingAdapter.getSeller(doc, null)).toBe('サンプルストア');
+  });
+
+  it('should read sold out stock text', () => {
+    const doc = parseDocument('<div class="styles_stock__abc">在庫切れ</div>');
+
+    expect(yahooShoppingAdapter.getAvailability(doc)).toBe('out_of_stock');
+  });
+
+  it('should parse a fetched page', () => {
+    expect(yahooShoppingAdapter.parsePage(html)).toEqual({
+      title: 'コーヒー豆 深煎り 500g',
+      price: 1680,
+      availability: 'available'
+    });
+  });
+});
@@ -14,6 +14,10 @@ const mockStorage = {
     set: vi.fn(),
     remove: vi.fn(),
     clear: vi.fn()
+  },
+  onChanged: {
+    addListener: vi.fn(),
+    removeListener: vi.fn()
   }
 };
 
@@ -63,6 +67,10 @@ const mockWebNavigation = {
   onCompleted: {
     addListener: vi.fn(),
     removeListener: vi.fn()
+  },
+  onHistoryStateUpdated: {
+    addListener: vi.fn(),
+    removeListener: vi.fn()
   }
 };
 
@@ -70,7 +78,8 @@ const mockTabs = {
   query: vi.fn(),
   get: vi.fn(),
   create: vi.fn(),
-  update: vi.fn()
+  update: vi.fn(),
+  sendMessage: vi.fn()
 };
 
 // Set up global chrome mock